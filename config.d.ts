@@ -16,7 +16,7 @@
 
 import type * as playwright from 'playwright';
 
-export type ToolCapability = 'core' | 'core-tabs' | 'core-install' | 'vision' | 'pdf';
+export type ToolCapability = 'core' | 'core-tabs' | 'core-install' | 'vision' | 'pdf' | 'network' | 'storage' | 'testing' | 'performance' | 'emulation' | 'downloads';
 
 export type Config = {
   /**
@@ -105,6 +105,12 @@ export type Config = {
    *   - 'core': Core browser automation features.
    *   - 'pdf': PDF generation and manipulation.
    *   - 'vision': Coordinate-based interactions.
+   *   - 'network': Network mocking, interception and throttling.
+   *   - 'storage': Cookie and web storage management.
+   *   - 'testing': Assertions that generate Playwright test code.
+   *   - 'performance': Performance metrics and CPU profiles.
+   *   - 'emulation': Geolocation, permissions, media features, locale, timezone and clock emulation.
+   *   - 'downloads': Download listing, waiting, cancellation, reading and renaming.
    */
   capabilities?: ToolCapability[];
 
@@ -113,6 +119,12 @@ export type Config = {
    */
   saveSession?: boolean;
 
+  /**
+   * Whether to save the session as a Playwright test file into the output directory.
+   * The file is updated after every tool call.
+   */
+  saveTest?: boolean;
+
   /**
    * Whether to save the Playwright trace of the session into the output directory.
    */
@@ -133,8 +145,90 @@ export type Config = {
      * List of origins to block the browser to request. Origins matching both `allowedOrigins` and `blockedOrigins` will be blocked.
      */
     blockedOrigins?: string[];
+
+    /**
+     * Whether to record the network traffic of the session into a HAR file in the output directory.
+     */
+    saveHar?: boolean;
+
+    /**
+     * Path to a HAR file to serve network responses from.
+     * @see https://playwright.dev/docs/mock#mocking-with-har-files
+     */
+    replayHar?: string;
+
+    /**
+     * What to do with requests that are not found in the replayed HAR file. Defaults to "abort".
+     */
+    replayHarNotFound?: 'abort' | 'fallback';
+
+    /**
+     * Whether to emulate network being offline.
+     */
+    offline?: boolean;
+
+    /**
+     * Network throttling to apply: "slow-3g", "fast-3g", or a custom latency in milliseconds and throughput in kbit/s.
+     * Throughput is only emulated in Chromium, Firefox and WebKit emulate the latency.
+     */
+    throttling?: 'slow-3g' | 'fast-3g' | {
+      latency: number;
+      downloadThroughput: number;
+      uploadThroughput: number;
+    };
+  };
+
+  /**
+   * Dialogs to handle automatically instead of waiting for the browser_handle_dialog tool.
+   * The first matching policy is applied, dialogs not matching any policy are reported as a modal state.
+   */
+  dialogPolicies?: {
+    /**
+     * Whether to accept or dismiss the dialog. Accepting a "beforeunload" dialog leaves the page.
+     */
+    action: 'accept' | 'dismiss';
+
+    /**
+     * Text to enter into accepted prompt dialogs.
+     */
+    promptText?: string;
+
+    /**
+     * Only apply to dialogs of this type. Applies to all types if not specified.
+     */
+    type?: 'alert' | 'beforeunload' | 'confirm' | 'prompt';
+
+    /**
+     * Regular expression the dialog message must match. Applies to all messages if not specified.
+     */
+    message?: string;
+  }[];
+
+  /**
+   * Which downloads are saved to the output directory. Rejected downloads are canceled.
+   */
+  downloads?: {
+    /**
+     * Whether to reject all downloads.
+     */
+    reject?: boolean;
+
+    /**
+     * Maximum size of a download in bytes, larger downloads are removed once finished.
+     */
+    maxSize?: number;
+
+    /**
+     * List of file extensions to allow, for example [".csv", ".pdf"]. Default is to allow all.
+     */
+    allowedExtensions?: string[];
   };
 
+  /**
+   * CPU slowdown factor to apply, for example 4 for a 4x slowdown. Chromium only.
+   */
+  cpuThrottling?: number;
+
   /**
    * Whether to send image responses to the client. Can be "allow", "omit", or "auto". Defaults to "auto", which sends images if the client can display them.
    */
@@ -144,4 +238,38 @@ export type Config = {
    * Maximum number of tokens for snapshots before truncation. Set to 0 to disable truncation. Defaults to 20000.
    */
   truncateSnapshot?: number;
+
+  /**
+   * How snapshots exceeding `truncateSnapshot` tokens are truncated. "paginate" splits the snapshot into pages,
+   * "collapse" collapses deep subtrees and long lists into placeholders that can be expanded with
+   * the browser_snapshot_expand tool. Defaults to "paginate".
+   */
+  truncateStrategy?: 'paginate' | 'collapse';
+
+  /**
+   * How snapshots are reported after actions. "full" sends the whole snapshot every time, "incremental" sends
+   * only the added, changed and removed elements since the previous snapshot of the page. Defaults to "full".
+   * The browser_snapshot tool always returns the full snapshot.
+   */
+  snapshotMode?: 'full' | 'incremental';
+
+  /**
+   * Limits of the tasks performed by the loop tools.
+   */
+  loop?: {
+    /**
+     * Maximum number of model turns per task. Defaults to 5.
+     */
+    maxIterations?: number;
+
+    /**
+     * Maximum number of tokens the model may use per task. Only enforced for model APIs that report usage.
+     */
+    maxTokens?: number;
+
+    /**
+     * Maximum time per task in milliseconds.
+     */
+    timeout?: number;
+  };
 };
@@ -42,7 +42,7 @@ export function contextFactory(browserConfig: FullConfig['browser']): BrowserCon
 }
 
 export interface BrowserContextFactory {
-  createContext(clientInfo: { name: string, version: string }): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }>;
+  createContext(clientInfo: { name: string, version: string }, contextOptions?: playwright.BrowserContextOptions): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }>;
 }
 
 class BaseContextFactory implements BrowserContextFactory {
@@ -74,14 +74,14 @@ class BaseContextFactory implements BrowserContextFactory {
     throw new Error('Not implemented');
   }
 
-  async createContext(): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
+  async createContext(clientInfo: { name: string, version: string }, contextOptions?: playwright.BrowserContextOptions): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
     testDebug(`create browser context (${this.name})`);
     const browser = await this._obtainBrowser();
-    const browserContext = await this._doCreateContext(browser);
+    const browserContext = await this._doCreateContext(browser, contextOptions);
     return { browserContext, close: () => this._closeBrowserContext(browserContext, browser) };
   }
 
-  protected async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
+  protected async _doCreateContext(browser: playwright.Browser, contextOptions?: playwright.BrowserContextOptions): Promise<playwright.BrowserContext> {
     throw new Error('Not implemented');
   }
 
@@ -117,8 +117,8 @@ class IsolatedContextFactory extends BaseContextFactory {
     });
   }
 
-  protected override async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
-    const contextOptions = { ...this.browserConfig.contextOptions };
+  protected override async _doCreateContext(browser: playwright.Browser, extraContextOptions?: playwright.BrowserContextOptions): Promise<playwright.BrowserContext> {
+    const contextOptions = { ...this.browserConfig.contextOptions, ...extraContextOptions };
 
     // Apply video recording configuration if specified
     if (this.browserConfig.recordVideo && this.browserConfig.recordVideo.mode !== 'off') {
@@ -141,8 +141,8 @@ class CdpContextFactory extends BaseContextFactory {
     return playwright.chromium.connectOverCDP(this.browserConfig.cdpEndpoint!);
   }
 
-  protected override async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
-    return this.browserConfig.isolated ? await browser.newContext() : browser.contexts()[0];
+  protected override async _doCreateContext(browser: playwright.Browser, contextOptions?: playwright.BrowserContextOptions): Promise<playwright.BrowserContext> {
+    return this.browserConfig.isolated ? await browser.newContext(contextOptions) : browser.contexts()[0];
   }
 }
 
@@ -161,8 +161,8 @@ class RemoteContextFactory extends BaseContextFactory {
     return browserType.connect(String(url));
   }
 
-  protected override async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
-    return browser.newContext();
+  protected override async _doCreateContext(browser: playwright.Browser, contextOptions?: playwright.BrowserContextOptions): Promise<playwright.BrowserContext> {
+    return browser.newContext(contextOptions);
   }
 }
 
@@ -174,8 +174,11 @@ class PersistentContextFactory implements BrowserContextFactory {
     this.browserConfig = browserConfig;
   }
 
-  async createContext(): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
+  async createContext(clientInfo: { name: string, version: string }, extraContextOptions?: playwright.BrowserContextOptions): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
     await injectCdpPort(this.browserConfig);
+    // Storage of a persistent context lives in the user data directory.
+    const persistentContextOptions = { ...extraContextOptions };
+    delete persistentContextOptions.storageState;
     testDebug('create browser context (persistent)');
     const userDataDir = this.browserConfig.userDataDir ?? await this._createUserDataDir();
 
@@ -189,6 +192,7 @@ class PersistentContextFactory implements BrowserContextFactory {
         const contextOptions = {
           ...this.browserConfig.launchOptions,
           ...this.browserConfig.contextOptions,
+          ...persistentContextOptions,
           handleSIGINT: false,
           handleSIGTERM: false,
         };
@@ -14,7 +14,9 @@
  * limitations under the License.
  */
 
-import { FullConfig } from './config.js';
+import fs from 'fs';
+
+import { FullConfig, outputFile } from './config.js';
 import { Context } from './context.js';
 import { logUnhandledError } from './log.js';
 import { Response } from './response.js';
@@ -33,6 +35,7 @@ export class BrowserServerBackend implements ServerBackend {
   private _tools: Tool[];
   private _context: Context;
   private _sessionLog: SessionLog | undefined;
+  private _testFile: string | undefined;
 
   constructor(config: FullConfig, browserContextFactory: BrowserContextFactory) {
     this._tools = filteredTools(config);
@@ -41,6 +44,11 @@ export class BrowserServerBackend implements ServerBackend {
 
   async initialize() {
     this._sessionLog = this._context.config.saveSession ? await SessionLog.create(this._context.config) : undefined;
+    if (this._context.config.saveTest) {
+      this._testFile = await outputFile(this._context.config, `test-${new Date().toISOString()}.spec.ts`);
+      // eslint-disable-next-line no-console
+      console.error(`Test: ${this._testFile}`);
+    }
   }
 
   tools(): mcpServer.ToolSchema<any>[] {
@@ -51,8 +59,11 @@ export class BrowserServerBackend implements ServerBackend {
     const response = new Response(this._context, schema.name, parsedArguments);
     const tool = this._tools.find(tool => tool.schema.name === schema.name)!;
     await tool.handle(this._context, parsedArguments, response);
+    this._context.testGenerator.addStep(response);
     if (this._sessionLog)
       await this._sessionLog.log(response);
+    if (this._testFile)
+      await fs.promises.writeFile(this._testFile, this._context.testGenerator.generate('session'));
     return await response.serialize();
   }
 
@@ -19,10 +19,12 @@ import os from 'os';
 import path from 'path';
 import { devices } from 'playwright';
 import { sanitizeForFilePath } from './tools/utils.js';
+import { compileDialogPolicy } from './context.js';
 import type { Config, ToolCapability } from '../config.js';
 import type { BrowserContextOptions, LaunchOptions } from 'playwright';
 
 export type CLIOptions = {
+  allowedDownloadExtensions?: string[];
   allowedOrigins?: string[];
   blockedOrigins?: string[];
   blockServiceWorkers?: boolean;
@@ -30,24 +32,38 @@ export type CLIOptions = {
   caps?: string[];
   cdpEndpoint?: string;
   config?: string;
+  cpuThrottling?: number;
   device?: string;
+  dialogPolicy?: 'accept' | 'dismiss';
   executablePath?: string;
   headless?: boolean;
   host?: string;
   ignoreHttpsErrors?: boolean;
   isolated?: boolean;
   imageResponses?: 'allow' | 'omit';
+  loopMaxIterations?: number;
+  loopMaxTokens?: number;
+  loopTimeout?: number;
+  maxDownloadSize?: number;
+  networkThrottling?: string;
+  offline?: boolean;
   sandbox?: boolean;
   outputDir?: string;
   port?: number;
   proxyBypass?: string;
   proxyServer?: string;
+  rejectDownloads?: boolean;
+  replayHar?: string;
   recordVideo?: string;
   recordVideoSize?: string;
+  saveHar?: boolean;
   saveSession?: boolean;
+  saveTest?: boolean;
   saveTrace?: boolean;
+  snapshotMode?: 'full' | 'incremental';
   storageState?: string;
   truncateSnapshot?: number;
+  truncateStrategy?: 'paginate' | 'collapse';
   userAgent?: string;
   userDataDir?: string;
   viewportSize?: string;
@@ -70,6 +86,8 @@ const defaultConfig: FullConfig = {
     blockedOrigins: undefined,
   },
   server: {},
+  downloads: {},
+  loop: {},
   outputDir: path.join(os.tmpdir(), 'playwright-mcp-output', sanitizeForFilePath(new Date().toISOString())),
   truncateSnapshot: 20000,
 };
@@ -83,13 +101,17 @@ export type FullConfig = Config & {
     contextOptions: NonNullable<BrowserUserConfig['contextOptions']>;
   },
   network: NonNullable<Config['network']>,
+  downloads: NonNullable<Config['downloads']>,
+  loop: NonNullable<Config['loop']>,
   outputDir: string;
   server: NonNullable<Config['server']>,
   truncateSnapshot: number;
 };
 
 export async function resolveConfig(config: Config): Promise<FullConfig> {
-  return mergeConfig(defaultConfig, config);
+  const result = mergeConfig(defaultConfig, config);
+  validateConfig(result);
+  return result;
 }
 
 export async function resolveCLIConfig(cliOptions: CLIOptions): Promise<FullConfig> {
@@ -103,9 +125,18 @@ export async function resolveCLIConfig(cliOptions: CLIOptions): Promise<FullConf
   // Derive artifact output directory from config.outputDir
   if (result.saveTrace)
     result.browser.launchOptions.tracesDir = path.join(result.outputDir, 'traces');
+  if (result.network.saveHar)
+    result.browser.contextOptions.recordHar = { path: path.join(result.outputDir, 'session.har') };
+  validateConfig(result);
   return result;
 }
 
+function validateConfig(config: FullConfig) {
+  // Dialog policies are matched inside the dialog event handler, where an invalid pattern could not be reported.
+  for (const policy of config.dialogPolicies ?? [])
+    compileDialogPolicy(policy);
+}
+
 export function configFromCLIOptions(cliOptions: CLIOptions): Config {
   let browserName: 'chromium' | 'firefox' | 'webkit' | undefined;
   let channel: string | undefined;
@@ -177,6 +208,25 @@ export function configFromCLIOptions(cliOptions: CLIOptions): Config {
   if (cliOptions.blockServiceWorkers)
     contextOptions.serviceWorkers = 'block';
 
+  if (cliOptions.truncateStrategy && !['paginate', 'collapse'].includes(cliOptions.truncateStrategy))
+    throw new Error('Invalid truncate strategy. Use "paginate" or "collapse"');
+
+  if (cliOptions.dialogPolicy && !['accept', 'dismiss'].includes(cliOptions.dialogPolicy))
+    throw new Error('Invalid dialog policy. Use "accept" or "dismiss"');
+
+  if (cliOptions.snapshotMode && !['full', 'incremental'].includes(cliOptions.snapshotMode))
+    throw new Error('Invalid snapshot mode. Use "full" or "incremental"');
+
+  let throttling: NonNullable<Config['network']>['throttling'];
+  if (cliOptions.networkThrottling === 'slow-3g' || cliOptions.networkThrottling === 'fast-3g') {
+    throttling = cliOptions.networkThrottling;
+  } else if (cliOptions.networkThrottling) {
+    const [latency, downloadThroughput, uploadThroughput] = cliOptions.networkThrottling.split(',').map(n => +n);
+    if ([latency, downloadThroughput, uploadThroughput].some(value => value === undefined || isNaN(value)))
+      throw new Error('Invalid network throttling: use "slow-3g", "fast-3g" or "latency,download,upload", for example --network-throttling="300,1600,750"');
+    throttling = { latency, downloadThroughput, uploadThroughput };
+  }
+
   // Video recording configuration
   let recordVideo: { mode: 'off' | 'on' | 'retain-on-failure' | 'on-first-retry'; size?: { width: number; height: number } } | undefined;
   if (cliOptions.recordVideo) {
@@ -217,12 +267,31 @@ export function configFromCLIOptions(cliOptions: CLIOptions): Config {
     network: {
       allowedOrigins: cliOptions.allowedOrigins,
       blockedOrigins: cliOptions.blockedOrigins,
+      saveHar: cliOptions.saveHar,
+      replayHar: cliOptions.replayHar,
+      offline: cliOptions.offline,
+      throttling,
+    },
+    dialogPolicies: cliOptions.dialogPolicy ? [{ action: cliOptions.dialogPolicy }] : undefined,
+    downloads: {
+      reject: cliOptions.rejectDownloads,
+      maxSize: cliOptions.maxDownloadSize,
+      allowedExtensions: cliOptions.allowedDownloadExtensions,
     },
+    cpuThrottling: cliOptions.cpuThrottling,
     saveSession: cliOptions.saveSession,
+    saveTest: cliOptions.saveTest,
     saveTrace: cliOptions.saveTrace,
     outputDir: cliOptions.outputDir,
     imageResponses: cliOptions.imageResponses,
     truncateSnapshot: cliOptions.truncateSnapshot,
+    truncateStrategy: cliOptions.truncateStrategy,
+    snapshotMode: cliOptions.snapshotMode,
+    loop: {
+      maxIterations: cliOptions.loopMaxIterations,
+      maxTokens: cliOptions.loopMaxTokens,
+      timeout: cliOptions.loopTimeout,
+    },
   };
 
   return result;
@@ -230,6 +299,7 @@ export function configFromCLIOptions(cliOptions: CLIOptions): Config {
 
 function configFromEnv(): Config {
   const options: CLIOptions = {};
+  options.allowedDownloadExtensions = commaSeparatedList(process.env.PLAYWRIGHT_MCP_ALLOWED_DOWNLOAD_EXTENSIONS);
   options.allowedOrigins = semicolonSeparatedList(process.env.PLAYWRIGHT_MCP_ALLOWED_ORIGINS);
   options.blockedOrigins = semicolonSeparatedList(process.env.PLAYWRIGHT_MCP_BLOCKED_ORIGINS);
   options.blockServiceWorkers = envToBoolean(process.env.PLAYWRIGHT_MCP_BLOCK_SERVICE_WORKERS);
@@ -237,7 +307,9 @@ function configFromEnv(): Config {
   options.caps = commaSeparatedList(process.env.PLAYWRIGHT_MCP_CAPS);
   options.cdpEndpoint = envToString(process.env.PLAYWRIGHT_MCP_CDP_ENDPOINT);
   options.config = envToString(process.env.PLAYWRIGHT_MCP_CONFIG);
+  options.cpuThrottling = envToNumber(process.env.PLAYWRIGHT_MCP_CPU_THROTTLING);
   options.device = envToString(process.env.PLAYWRIGHT_MCP_DEVICE);
+  options.dialogPolicy = envToString(process.env.PLAYWRIGHT_MCP_DIALOG_POLICY) as CLIOptions['dialogPolicy'];
   options.executablePath = envToString(process.env.PLAYWRIGHT_MCP_EXECUTABLE_PATH);
   options.headless = envToBoolean(process.env.PLAYWRIGHT_MCP_HEADLESS);
   options.host = envToString(process.env.PLAYWRIGHT_MCP_HOST);
@@ -245,20 +317,32 @@ function configFromEnv(): Config {
   options.isolated = envToBoolean(process.env.PLAYWRIGHT_MCP_ISOLATED);
   if (process.env.PLAYWRIGHT_MCP_IMAGE_RESPONSES === 'omit')
     options.imageResponses = 'omit';
+  options.maxDownloadSize = envToNumber(process.env.PLAYWRIGHT_MCP_MAX_DOWNLOAD_SIZE);
+  options.networkThrottling = envToString(process.env.PLAYWRIGHT_MCP_NETWORK_THROTTLING);
+  options.offline = envToBoolean(process.env.PLAYWRIGHT_MCP_OFFLINE);
   options.sandbox = envToBoolean(process.env.PLAYWRIGHT_MCP_SANDBOX);
   options.outputDir = envToString(process.env.PLAYWRIGHT_MCP_OUTPUT_DIR);
   options.port = envToNumber(process.env.PLAYWRIGHT_MCP_PORT);
   options.proxyBypass = envToString(process.env.PLAYWRIGHT_MCP_PROXY_BYPASS);
   options.proxyServer = envToString(process.env.PLAYWRIGHT_MCP_PROXY_SERVER);
+  options.rejectDownloads = envToBoolean(process.env.PLAYWRIGHT_MCP_REJECT_DOWNLOADS);
+  options.replayHar = envToString(process.env.PLAYWRIGHT_MCP_REPLAY_HAR);
   options.recordVideo = envToString(process.env.PLAYWRIGHT_MCP_RECORD_VIDEO);
   options.recordVideoSize = envToString(process.env.PLAYWRIGHT_MCP_RECORD_VIDEO_SIZE);
+  options.saveHar = envToBoolean(process.env.PLAYWRIGHT_MCP_SAVE_HAR);
   options.saveSession = envToBoolean(process.env.PLAYWRIGHT_MCP_SAVE_SESSION);
+  options.saveTest = envToBoolean(process.env.PLAYWRIGHT_MCP_SAVE_TEST);
   options.saveTrace = envToBoolean(process.env.PLAYWRIGHT_MCP_SAVE_TRACE);
+  options.snapshotMode = envToString(process.env.PLAYWRIGHT_MCP_SNAPSHOT_MODE) as CLIOptions['snapshotMode'];
   options.storageState = envToString(process.env.PLAYWRIGHT_MCP_STORAGE_STATE);
   options.userAgent = envToString(process.env.PLAYWRIGHT_MCP_USER_AGENT);
   options.userDataDir = envToString(process.env.PLAYWRIGHT_MCP_USER_DATA_DIR);
   options.viewportSize = envToString(process.env.PLAYWRIGHT_MCP_VIEWPORT_SIZE);
   options.truncateSnapshot = envToNumber(process.env.PLAYWRIGHT_MCP_TRUNCATE_SNAPSHOT);
+  options.loopMaxIterations = envToNumber(process.env.PLAYWRIGHT_MCP_LOOP_MAX_ITERATIONS);
+  options.loopMaxTokens = envToNumber(process.env.PLAYWRIGHT_MCP_LOOP_MAX_TOKENS);
+  options.loopTimeout = envToNumber(process.env.PLAYWRIGHT_MCP_LOOP_TIMEOUT);
+  options.truncateStrategy = envToString(process.env.PLAYWRIGHT_MCP_TRUNCATE_STRATEGY) as CLIOptions['truncateStrategy'];
   return configFromCLIOptions(options);
 }
 
@@ -279,7 +363,7 @@ export async function outputFile(config: FullConfig, name: string): Promise<stri
   return path.join(config.outputDir, fileName);
 }
 
-function pickDefined<T extends object>(obj: T | undefined): Partial<T> {
+export function pickDefined<T extends object>(obj: T | undefined): Partial<T> {
   return Object.fromEntries(
       Object.entries(obj ?? {}).filter(([_, v]) => v !== undefined)
   ) as Partial<T>;
@@ -313,6 +397,14 @@ function mergeConfig(base: FullConfig, overrides: Config): FullConfig {
       ...pickDefined(base.network),
       ...pickDefined(overrides.network),
     },
+    downloads: {
+      ...pickDefined(base.downloads),
+      ...pickDefined(overrides.downloads),
+    },
+    loop: {
+      ...pickDefined(base.loop),
+      ...pickDefined(overrides.loop),
+    },
     server: {
       ...pickDefined(base.server),
       ...pickDefined(overrides.server),
@@ -19,28 +19,79 @@ import * as playwright from 'playwright';
 
 import { logUnhandledError } from './log.js';
 import { Tab } from './tab.js';
+import { contextFactory } from './browserContextFactory.js';
+import { TestGenerator } from './testGenerator.js';
+import { observePerformance } from './performance.js';
+import { NetworkConditions } from './networkConditions.js';
+import { pickDefined } from './config.js';
 
 import type { Tool } from './tools/tool.js';
+import type { Config } from '../config.js';
 import type { FullConfig } from './config.js';
 import type { BrowserContextFactory } from './browserContextFactory.js';
+import type { NetworkConditionsState } from './networkConditions.js';
 
 const testDebug = debug('pw:mcp:test');
 
+export type RouteEntry = {
+  id: number;
+  pattern: string;
+  description: string;
+  handler: (route: playwright.Route) => Promise<void>;
+};
+
+export type HarRouteEntry = {
+  file: string;
+  options: NonNullable<Parameters<playwright.BrowserContext['routeFromHAR']>[1]>;
+};
+
+export type DialogPolicy = NonNullable<Config['dialogPolicies']>[number];
+
+type CompiledDialogPolicy = {
+  policy: DialogPolicy;
+  message: RegExp | undefined;
+};
+
+type BrowserContextState = {
+  name: string;
+  contextOptions: playwright.BrowserContextOptions | undefined;
+  browserContextPromise: Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> | undefined;
+  closePromise: Promise<void> | undefined;
+  tabs: Tab[];
+  currentTab: Tab | undefined;
+  // Emulation applied to the open browser context, re-applied when it is recreated.
+  geolocation: playwright.Geolocation | null;
+  permissionGrants: { permissions: string[], origin?: string }[];
+  // Set while a page that should not become a tab is being opened.
+  openingUntrackedPage: boolean;
+};
+
+export const defaultBrowserContextName = 'default';
+
 export class Context {
   readonly tools: Tool[];
   readonly config: FullConfig;
-  private _browserContextPromise: Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> | undefined;
+  readonly testGenerator: TestGenerator;
+  readonly networkConditions: NetworkConditions;
   private _browserContextFactory: BrowserContextFactory;
-  private _tabs: Tab[] = [];
-  private _currentTab: Tab | undefined;
+  private _isolatedContextFactory: BrowserContextFactory | undefined;
+  private _defaultBrowserContext: BrowserContextState = createBrowserContextState(defaultBrowserContextName, undefined);
+  private _browserContexts: BrowserContextState[] = [this._defaultBrowserContext];
+  private _currentBrowserContext: BrowserContextState = this._defaultBrowserContext;
+  private _routes: RouteEntry[] = [];
+  private _lastRouteId = 0;
+  private _harRoutes: HarRouteEntry[] = [];
+  private _dialogPolicies: CompiledDialogPolicy[];
   clientVersion: { name: string; version: string; } | undefined;
 
   private static _allContexts: Set<Context> = new Set();
-  private _closeBrowserContextPromise: Promise<void> | undefined;
 
   constructor(tools: Tool[], config: FullConfig, browserContextFactory: BrowserContextFactory) {
     this.tools = tools;
     this.config = config;
+    this.testGenerator = new TestGenerator(config);
+    this.networkConditions = new NetworkConditions(config);
+    this._dialogPolicies = (config.dialogPolicies ?? []).map(compileDialogPolicy);
     this._browserContextFactory = browserContextFactory;
     testDebug('create context');
     Context._allContexts.add(this);
@@ -51,47 +102,53 @@ export class Context {
   }
 
   tabs(): Tab[] {
-    return this._tabs;
+    return this._currentBrowserContext.tabs;
   }
 
   currentTab(): Tab | undefined {
-    return this._currentTab;
+    return this._currentBrowserContext.currentTab;
   }
 
   currentTabOrDie(): Tab {
-    if (!this._currentTab)
+    const tab = this._currentBrowserContext.currentTab;
+    if (!tab)
       throw new Error('No open pages available. Use the "browser_navigate" tool to navigate to a page first.');
-    return this._currentTab;
+    return tab;
   }
 
   async newTab(): Promise<Tab> {
-    const { browserContext } = await this._ensureBrowserContext();
+    const state = this._currentBrowserContext;
+    const { browserContext } = await this._ensureBrowserContext(state);
     const page = await browserContext.newPage();
-    this._currentTab = this._tabs.find(t => t.page === page)!;
-    return this._currentTab;
+    await this.networkConditions.applyToPage(page);
+    state.currentTab = state.tabs.find(t => t.page === page)!;
+    return state.currentTab;
   }
 
   async selectTab(index: number) {
-    const tab = this._tabs[index];
+    const state = this._currentBrowserContext;
+    const tab = state.tabs[index];
     if (!tab)
       throw new Error(`Tab ${index} not found`);
     await tab.page.bringToFront();
-    this._currentTab = tab;
+    state.currentTab = tab;
     return tab;
   }
 
   async ensureTab(): Promise<Tab> {
-    const { browserContext } = await this._ensureBrowserContext();
-    if (!this._currentTab)
-      await browserContext.newPage();
-    return this._currentTab!;
+    const state = this._currentBrowserContext;
+    const { browserContext } = await this._ensureBrowserContext(state);
+    if (!state.currentTab)
+      await this.networkConditions.applyToPage(await browserContext.newPage());
+    return state.currentTab!;
   }
 
   async listTabsMarkdown(force: boolean = false): Promise<string[]> {
-    if (this._tabs.length === 1 && !force)
+    const tabs = this._currentBrowserContext.tabs;
+    if (tabs.length === 1 && !force)
       return [];
 
-    if (!this._tabs.length) {
+    if (this._browserContexts.length === 1 && !tabs.length) {
       return [
         '### No open tabs',
         'Use the "browser_navigate" tool to navigate to a page first.',
@@ -100,19 +157,37 @@ export class Context {
     }
 
     const lines: string[] = ['### Open tabs'];
-    for (let i = 0; i < this._tabs.length; i++) {
-      const tab = this._tabs[i];
+    if (this._browserContexts.length === 1) {
+      lines.push(...await this._tabsMarkdown(this._defaultBrowserContext, ''));
+    } else {
+      for (const state of this._browserContexts) {
+        const current = state === this._currentBrowserContext ? ' (current)' : '';
+        lines.push(`- Browser context "${state.name}"${current}:`);
+        if (state.tabs.length)
+          lines.push(...await this._tabsMarkdown(state, '  '));
+        else
+          lines.push('  - No open tabs');
+      }
+    }
+    lines.push('');
+    return lines;
+  }
+
+  private async _tabsMarkdown(state: BrowserContextState, indent: string): Promise<string[]> {
+    const lines: string[] = [];
+    for (let i = 0; i < state.tabs.length; i++) {
+      const tab = state.tabs[i];
       const title = await tab.title();
       const url = tab.page.url();
-      const current = tab === this._currentTab ? ' (current)' : '';
-      lines.push(`- ${i}:${current} [${title}] (${url})`);
+      const current = tab === state.currentTab ? ' (current)' : '';
+      lines.push(`${indent}- ${i}:${current} [${title}] (${url})`);
     }
-    lines.push('');
     return lines;
   }
 
   async closeTab(index: number | undefined): Promise<string> {
-    const tab = index === undefined ? this._currentTab : this._tabs[index];
+    const state = this._currentBrowserContext;
+    const tab = index === undefined ? state.currentTab : state.tabs[index];
     if (!tab)
       throw new Error(`Tab ${index} not found`);
     const url = tab.page.url();
@@ -120,43 +195,240 @@ export class Context {
     return url;
   }
 
-  private _onPageCreated(page: playwright.Page) {
-    const tab = new Tab(this, page, tab => this._onPageClosed(tab));
-    this._tabs.push(tab);
-    if (!this._currentTab)
-      this._currentTab = tab;
+  browserContextNames(): string[] {
+    return this._browserContexts.map(state => state.name);
+  }
+
+  currentBrowserContextName(): string {
+    return this._currentBrowserContext.name;
+  }
+
+  async newBrowserContext(name: string, contextOptions: playwright.BrowserContextOptions) {
+    if (this._browserContexts.some(state => state.name === name))
+      throw new Error(`Browser context "${name}" already exists`);
+    const state = createBrowserContextState(name, contextOptions);
+    this._browserContexts.push(state);
+    try {
+      await this._ensureBrowserContext(state);
+    } catch (error) {
+      this._browserContexts.splice(this._browserContexts.indexOf(state), 1);
+      throw error;
+    }
+    this._currentBrowserContext = state;
+  }
+
+  selectBrowserContext(name: string) {
+    const state = this._browserContexts.find(state => state.name === name);
+    if (!state)
+      throw new Error(`Browser context "${name}" not found`);
+    this._currentBrowserContext = state;
+  }
+
+  async closeNamedBrowserContext(name: string) {
+    const state = this._browserContexts.find(state => state.name === name);
+    if (!state)
+      throw new Error(`Browser context "${name}" not found`);
+    if (state !== this._defaultBrowserContext)
+      this._browserContexts.splice(this._browserContexts.indexOf(state), 1);
+    if (this._currentBrowserContext === state)
+      this._currentBrowserContext = this._defaultBrowserContext;
+    await this._closeBrowserContextState(state);
+  }
+
+  async setGeolocation(geolocation: playwright.Geolocation | null) {
+    const state = this._currentBrowserContext;
+    const { browserContext } = await this._ensureBrowserContext(state);
+    await browserContext.setGeolocation(geolocation);
+    state.geolocation = geolocation;
+  }
+
+  async grantPermissions(permissions: string[], origin?: string) {
+    const state = this._currentBrowserContext;
+    const { browserContext } = await this._ensureBrowserContext(state);
+    await browserContext.grantPermissions(permissions, origin ? { origin } : undefined);
+    state.permissionGrants.push({ permissions, origin });
+  }
+
+  async clearPermissions() {
+    const state = this._currentBrowserContext;
+    const { browserContext } = await this._ensureBrowserContext(state);
+    await browserContext.clearPermissions();
+    state.permissionGrants = [];
+  }
+
+  /**
+   * Opens a page in the current browser context that is not tracked as a tab, for internal work
+   * that needs a document of its own. The caller is responsible for closing it.
+   */
+  async newUntrackedPage(): Promise<playwright.Page> {
+    const state = this._currentBrowserContext;
+    const { browserContext } = await this._ensureBrowserContext(state);
+    state.openingUntrackedPage = true;
+    try {
+      return await browserContext.newPage();
+    } finally {
+      state.openingUntrackedPage = false;
+    }
+  }
+
+  /**
+   * Applies options that can only be set when a browser context is created, such as locale and timezone,
+   * by recreating the current browser context. Cookies, local storage, geolocation, granted permissions
+   * and emulated media are carried over and open tabs are reopened at their URLs.
+   */
+  async recreateBrowserContext(contextOptions: playwright.BrowserContextOptions) {
+    const state = this._currentBrowserContext;
+    const { browserContext } = await this._ensureBrowserContext(state);
+    const storageState = await browserContext.storageState();
+    const urls = state.tabs.map(tab => tab.page.url());
+    const media = state.tabs.map(tab => tab.emulatedMedia());
+    const { geolocation, permissionGrants } = state;
+    const currentIndex = state.currentTab ? state.tabs.indexOf(state.currentTab) : 0;
+
+    await this._closeBrowserContextState(state);
+    state.contextOptions = { ...state.contextOptions, ...pickDefined(contextOptions) };
+    // The storage state only seeds this context, later contexts for this state start from the configured options.
+    const { browserContext: newBrowserContext } = await this._ensureBrowserContext(state, { storageState });
+    for (const { permissions, origin } of permissionGrants)
+      await newBrowserContext.grantPermissions(permissions, origin ? { origin } : undefined);
+    if (geolocation)
+      await newBrowserContext.setGeolocation(geolocation);
+    state.geolocation = geolocation;
+    state.permissionGrants = permissionGrants;
+    for (let i = 0; i < urls.length; i++) {
+      const page = newBrowserContext.pages()[i] ?? await newBrowserContext.newPage();
+      await this.networkConditions.applyToPage(page);
+      await state.tabs.find(tab => tab.page === page)?.emulateMedia(media[i]);
+      if (urls[i] !== 'about:blank')
+        await page.goto(urls[i], { waitUntil: 'domcontentloaded' }).catch(logUnhandledError);
+    }
+    state.currentTab = state.tabs[Math.max(0, Math.min(currentIndex, state.tabs.length - 1))];
+  }
+
+  routes(): RouteEntry[] {
+    return this._routes;
+  }
+
+  async addRoute(pattern: string, description: string, handler: RouteEntry['handler']): Promise<RouteEntry> {
+    await this._ensureBrowserContext(this._currentBrowserContext);
+    const entry = { id: ++this._lastRouteId, pattern, description, handler };
+    for (const browserContext of await this._openBrowserContexts())
+      await browserContext.route(entry.pattern, entry.handler);
+    this._routes.push(entry);
+    return entry;
+  }
+
+  async removeRoutes(predicate: (entry: RouteEntry) => boolean): Promise<RouteEntry[]> {
+    const removed = this._routes.filter(predicate);
+    this._routes = this._routes.filter(entry => !removed.includes(entry));
+    for (const browserContext of await this._openBrowserContexts()) {
+      for (const entry of removed)
+        await browserContext.unroute(entry.pattern, entry.handler);
+    }
+    return removed;
+  }
+
+  // Serves or records traffic of all browser contexts through a HAR file, including contexts created later.
+  async addHarRoute(file: string, options: HarRouteEntry['options']) {
+    await this._ensureBrowserContext(this._currentBrowserContext);
+    const entry = { file, options };
+    for (const browserContext of await this._openBrowserContexts())
+      await browserContext.routeFromHAR(entry.file, entry.options);
+    this._harRoutes.push(entry);
+  }
+
+  dialogPolicies(): DialogPolicy[] {
+    return this._dialogPolicies.map(entry => entry.policy);
+  }
+
+  // Policies added later take precedence over earlier ones and the configured ones.
+  addDialogPolicy(policy: DialogPolicy) {
+    this._dialogPolicies.unshift(compileDialogPolicy(policy));
+  }
+
+  clearDialogPolicies(): DialogPolicy[] {
+    const removed = this.dialogPolicies();
+    this._dialogPolicies = [];
+    return removed;
+  }
+
+  dialogPolicyFor(dialog: playwright.Dialog): DialogPolicy | undefined {
+    return this._dialogPolicies.find(({ policy, message }) => {
+      if (policy.type && policy.type !== dialog.type())
+        return false;
+      return !message || message.test(dialog.message());
+    })?.policy;
   }
 
-  private _onPageClosed(tab: Tab) {
-    const index = this._tabs.indexOf(tab);
+  async setNetworkConditions(update: Partial<NetworkConditionsState>) {
+    this.networkConditions.update(update);
+    for (const browserContext of await this._openBrowserContexts()) {
+      await this.networkConditions.applyToBrowserContext(browserContext);
+      for (const page of browserContext.pages())
+        await this.networkConditions.applyToPage(page);
+    }
+  }
+
+  private async _openBrowserContexts(): Promise<playwright.BrowserContext[]> {
+    const promises = this._browserContexts.map(state => state.browserContextPromise).filter(promise => !!promise);
+    const results = await Promise.all(promises);
+    return results.map(result => result.browserContext);
+  }
+
+  private _onPageCreated(state: BrowserContextState, page: playwright.Page) {
+    if (state.openingUntrackedPage) {
+      state.openingUntrackedPage = false;
+      return;
+    }
+    const tab = new Tab(this, page, tab => this._onPageClosed(state, tab));
+    this.networkConditions.onPageCreated(page);
+    state.tabs.push(tab);
+    if (!state.currentTab)
+      state.currentTab = tab;
+  }
+
+  private _onPageClosed(state: BrowserContextState, tab: Tab) {
+    const index = state.tabs.indexOf(tab);
     if (index === -1)
       return;
-    this._tabs.splice(index, 1);
+    state.tabs.splice(index, 1);
 
-    if (this._currentTab === tab)
-      this._currentTab = this._tabs[Math.min(index, this._tabs.length - 1)];
-    if (!this._tabs.length)
-      void this.closeBrowserContext();
+    if (state.currentTab === tab)
+      state.currentTab = state.tabs[Math.min(index, state.tabs.length - 1)];
+    // Named browser contexts outlive their tabs to keep their cookies and storage.
+    if (!state.tabs.length && state === this._defaultBrowserContext)
+      void this._closeBrowserContextState(state);
   }
 
   async closeBrowserContext() {
-    if (!this._closeBrowserContextPromise)
-      this._closeBrowserContextPromise = this._closeBrowserContextImpl().catch(logUnhandledError);
-    await this._closeBrowserContextPromise;
-    this._closeBrowserContextPromise = undefined;
+    const states = this._browserContexts;
+    this._browserContexts = [this._defaultBrowserContext];
+    this._currentBrowserContext = this._defaultBrowserContext;
+    await Promise.all(states.map(state => this._closeBrowserContextState(state)));
+    // Recorded HAR files are written on close, later browser contexts should not overwrite them.
+    this._harRoutes = this._harRoutes.filter(entry => !entry.options.update);
+  }
+
+  private async _closeBrowserContextState(state: BrowserContextState) {
+    if (!state.closePromise)
+      state.closePromise = this._closeBrowserContextImpl(state).catch(logUnhandledError);
+    await state.closePromise;
+    state.closePromise = undefined;
   }
 
-  private async _closeBrowserContextImpl() {
-    if (!this._browserContextPromise)
+  private async _closeBrowserContextImpl(state: BrowserContextState) {
+    if (!state.browserContextPromise)
       return;
 
     testDebug('close context');
 
-    const promise = this._browserContextPromise;
-    this._browserContextPromise = undefined;
+    const promise = state.browserContextPromise;
+    state.browserContextPromise = undefined;
+    state.geolocation = null;
+    state.permissionGrants = [];
 
     await promise.then(async ({ browserContext, close }) => {
-      if (this.config.saveTrace)
+      if (this.config.saveTrace && state === this._defaultBrowserContext)
         await browserContext.tracing.stop();
       await close();
     });
@@ -179,25 +451,68 @@ export class Context {
       for (const origin of this.config.network.blockedOrigins)
         await context.route(`*://${origin}/**`, route => route.abort('blockedbyclient'));
     }
+
+    if (this.config.network?.replayHar)
+      await context.routeFromHAR(this.config.network.replayHar, { notFound: this.config.network.replayHarNotFound ?? 'abort' });
+
+    for (const entry of this._harRoutes)
+      await context.routeFromHAR(entry.file, entry.options);
+
+    for (const entry of this._routes)
+      await context.route(entry.pattern, entry.handler);
   }
 
-  private _ensureBrowserContext() {
-    if (!this._browserContextPromise) {
-      this._browserContextPromise = this._setupBrowserContext();
-      this._browserContextPromise.catch(() => {
-        this._browserContextPromise = undefined;
+  private _ensureBrowserContext(state: BrowserContextState, creationOptions?: playwright.BrowserContextOptions) {
+    if (!state.browserContextPromise) {
+      const promise = this._setupBrowserContext(state, creationOptions);
+      state.browserContextPromise = promise;
+      promise.catch(() => {
+        if (state.browserContextPromise === promise)
+          state.browserContextPromise = undefined;
       });
     }
-    return this._browserContextPromise;
+    return state.browserContextPromise;
   }
 
-  private async _setupBrowserContext(): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
-    if (this._closeBrowserContextPromise)
+  private async _createBrowserContext(state: BrowserContextState, creationOptions: playwright.BrowserContextOptions | undefined) {
+    const contextOptions = creationOptions ? { ...state.contextOptions, ...creationOptions } : state.contextOptions;
+    if (state === this._defaultBrowserContext)
+      return await this._browserContextFactory.createContext(this.clientVersion!, contextOptions);
+
+    // Named browser contexts start fresh, they neither record into the session HAR nor load the configured storage state.
+    const inheritedOptions = { ...this.config.browser.contextOptions };
+    delete inheritedOptions.recordHar;
+    delete inheritedOptions.storageState;
+
+    // Share the browser of the default context, unless it is a persistent profile that can only back a single context.
+    const { browserContext: defaultBrowserContext } = await this._ensureBrowserContext(this._defaultBrowserContext);
+    const browser = defaultBrowserContext.browser();
+    if (browser) {
+      const browserContext = await browser.newContext({ ...inheritedOptions, ...pickDefined(contextOptions) });
+      const close = async () => {
+        await browserContext.close().catch(logUnhandledError);
+        // The default context may have been closed in the meantime, leaving the browser to this context.
+        if (!browser.contexts().length)
+          await browser.close().catch(logUnhandledError);
+      };
+      return { browserContext, close };
+    }
+
+    if (!this._isolatedContextFactory)
+      this._isolatedContextFactory = contextFactory({ ...this.config.browser, isolated: true, contextOptions: inheritedOptions });
+    return await this._isolatedContextFactory.createContext(this.clientVersion!, contextOptions);
+  }
+
+  private async _setupBrowserContext(state: BrowserContextState, creationOptions: playwright.BrowserContextOptions | undefined): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
+    if (state.closePromise)
       throw new Error('Another browser context is being closed.');
     // TODO: move to the browser context factory to make it based on isolation mode.
-    const result = await this._browserContextFactory.createContext(this.clientVersion!);
+    const result = await this._createBrowserContext(state, creationOptions);
     const { browserContext } = result;
     await this._setupRequestInterception(browserContext);
+    if (this.config.capabilities?.includes('performance'))
+      await browserContext.addInitScript(observePerformance);
+    await this.networkConditions.applyToBrowserContext(browserContext);
 
     // Setup video recording if configured
     if (this.config.browser.recordVideo && this.config.browser.recordVideo.mode !== 'off') {
@@ -206,9 +521,9 @@ export class Context {
     }
 
     for (const page of browserContext.pages())
-      this._onPageCreated(page);
-    browserContext.on('page', page => this._onPageCreated(page));
-    if (this.config.saveTrace) {
+      this._onPageCreated(state, page);
+    browserContext.on('page', page => this._onPageCreated(state, page));
+    if (this.config.saveTrace && state === this._defaultBrowserContext) {
       await browserContext.tracing.start({
         name: 'trace',
         screenshots: false,
@@ -219,3 +534,25 @@ export class Context {
     return result;
   }
 }
+
+export function compileDialogPolicy(policy: DialogPolicy): CompiledDialogPolicy {
+  try {
+    return { policy, message: policy.message !== undefined ? new RegExp(policy.message) : undefined };
+  } catch (e) {
+    throw new Error(`Invalid dialog policy message pattern "${policy.message}": ${(e as Error).message}`);
+  }
+}
+
+function createBrowserContextState(name: string, contextOptions: playwright.BrowserContextOptions | undefined): BrowserContextState {
+  return {
+    name,
+    contextOptions,
+    browserContextPromise: undefined,
+    closePromise: undefined,
+    tabs: [],
+    currentTab: undefined,
+    geolocation: null,
+    permissionGrants: [],
+    openingUntrackedPage: false,
+  };
+}
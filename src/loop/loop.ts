@@ -22,6 +22,8 @@ export type LLMToolCall = {
   name: string;
   arguments: any;
   id: string;
+  // Set when the model's tool call could not be understood, reported back to the model instead of calling the tool.
+  error?: string;
 };
 
 export type LLMTool = {
@@ -38,23 +40,75 @@ export type LLMMessage =
 export type LLMConversation = {
   messages: LLMMessage[];
   tools: LLMTool[];
+  // Tokens used so far, for delegates whose API reports usage.
+  totalTokens?: number;
+};
+
+export type TaskStep = {
+  iteration: number;
+  toolCall: LLMToolCall;
+  content: string;
+  isError?: boolean;
+};
+
+export type RunTaskOptions = {
+  maxIterations?: number;
+  maxTokens?: number;
+  timeout?: number;
+  signal?: AbortSignal;
+  onStep?: (step: TaskStep) => Promise<void> | void;
 };
 
 export interface LLMDelegate {
   createConversation(task: string, tools: Tool[], oneShot: boolean): LLMConversation;
-  makeApiCall(conversation: LLMConversation): Promise<LLMToolCall[]>;
+  makeApiCall(conversation: LLMConversation, signal?: AbortSignal): Promise<LLMToolCall[]>;
   addToolResults(conversation: LLMConversation, results: Array<{ toolCallId: string; content: string; isError?: boolean }>): void;
   checkDoneToolCall(toolCall: LLMToolCall): string | null;
 }
 
-export async function runTask(delegate: LLMDelegate, client: Client, task: string, oneShot: boolean = false): Promise<LLMMessage[]> {
+export async function runTask(delegate: LLMDelegate, client: Client, task: string, oneShot: boolean = false, options: RunTaskOptions = {}): Promise<LLMMessage[]> {
   const { tools } = await client.listTools();
   const taskContent = oneShot ? `Perform following task: ${task}.` : `Perform following task: ${task}. Once the task is complete, call the "done" tool.`;
   const conversation = delegate.createConversation(taskContent, tools, oneShot);
+  const deadline = options.timeout ? Date.now() + options.timeout : undefined;
 
-  for (let iteration = 0; iteration < 5; ++iteration) {
+  // Aborted on cancellation or timeout, so that in-flight LLM requests and tool calls stop too.
+  const abortController = new AbortController();
+  const abort = () => abortController.abort();
+  options.signal?.addEventListener('abort', abort);
+  if (options.signal?.aborted)
+    abort();
+  const timer = options.timeout ? setTimeout(abort, options.timeout) : undefined;
+  try {
+    return await runTaskLoop(delegate, client, conversation, oneShot, options, abortController.signal, deadline);
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', abort);
+  }
+}
+
+async function runTaskLoop(delegate: LLMDelegate, client: Client, conversation: LLMConversation, oneShot: boolean, options: RunTaskOptions, signal: AbortSignal, deadline: number | undefined): Promise<LLMMessage[]> {
+  const maxIterations = options.maxIterations ?? 5;
+
+  const checkBudget = () => {
+    if (options.signal?.aborted)
+      throw new Error('Task was cancelled');
+    if (deadline && (signal.aborted || Date.now() > deadline))
+      throw new Error(`Task timed out after ${options.timeout}ms`);
+    if (options.maxTokens && (conversation.totalTokens ?? 0) > options.maxTokens)
+      throw new Error(`Task exceeded the token budget of ${options.maxTokens} tokens`);
+  };
+
+  for (let iteration = 0; iteration < maxIterations; ++iteration) {
+    checkBudget();
     debug('history')('Making API call for iteration', iteration);
-    const toolCalls = await delegate.makeApiCall(conversation);
+    let toolCalls: LLMToolCall[];
+    try {
+      toolCalls = await delegate.makeApiCall(conversation, signal);
+    } catch (error) {
+      checkBudget();
+      throw error;
+    }
     if (toolCalls.length === 0)
       throw new Error('Call the "done" tool when the task is complete.');
 
@@ -64,13 +118,16 @@ export async function runTask(delegate: LLMDelegate, client: Client, task: strin
       if (doneResult !== null)
         return conversation.messages;
 
+      checkBudget();
       const { name, arguments: args, id } = toolCall;
       try {
+        if (toolCall.error)
+          throw new Error(toolCall.error);
         debug('tool')(name, args);
         const response = await client.callTool({
           name,
           arguments: args,
-        });
+        }, undefined, { signal });
         const responseContent = (response.content || []) as (TextContent | ImageContent)[];
         debug('tool')(responseContent);
         const text = responseContent.filter(part => part.type === 'text').map(part => part.text).join('\n');
@@ -79,13 +136,18 @@ export async function runTask(delegate: LLMDelegate, client: Client, task: strin
           toolCallId: id,
           content: text,
         });
+        await options.onStep?.({ iteration, toolCall, content: text, isError: !!response.isError });
       } catch (error) {
+        if (signal.aborted)
+          checkBudget();
         debug('tool')(error);
+        const content = `Error while executing tool "${name}": ${error instanceof Error ? error.message : String(error)}\n\nPlease try to recover and complete the task.`;
         toolResults.push({
           toolCallId: id,
-          content: `Error while executing tool "${name}": ${error instanceof Error ? error.message : String(error)}\n\nPlease try to recover and complete the task.`,
+          content,
           isError: true,
         });
+        await options.onStep?.({ iteration, toolCall, content, isError: true });
 
         // Skip remaining tool calls for this iteration
         for (const remainingToolCall of toolCalls.slice(toolCalls.indexOf(toolCall) + 1)) {
@@ -104,5 +166,5 @@ export async function runTask(delegate: LLMDelegate, client: Client, task: strin
       return conversation.messages;
   }
 
-  throw new Error('Failed to perform step, max attempts reached');
+  throw new Error(`Failed to perform step, max attempts (${maxIterations}) reached`);
 }
@@ -58,7 +58,7 @@ export class ClaudeDelegate implements LLMDelegate {
     };
   }
 
-  async makeApiCall(conversation: LLMConversation): Promise<LLMToolCall[]> {
+  async makeApiCall(conversation: LLMConversation, signal?: AbortSignal): Promise<LLMToolCall[]> {
     // Convert generic messages to Claude format
     const claudeMessages: Anthropic.Messages.MessageParam[] = [];
 
@@ -132,9 +132,10 @@ export class ClaudeDelegate implements LLMDelegate {
       max_tokens: 10000,
       messages: claudeMessages,
       tools: claudeTools,
-    });
+    }, { signal });
 
     // Extract tool calls and add assistant message to generic conversation
+    conversation.totalTokens = (conversation.totalTokens ?? 0) + response.usage.input_tokens + response.usage.output_tokens;
     const toolCalls = response.content.filter(block => block.type === 'tool_use') as Anthropic.Messages.ToolUseBlock[];
     const textContent = response.content.filter(block => block.type === 'text').map(block => (block as Anthropic.Messages.TextBlock).text).join('');
 
@@ -0,0 +1,230 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import type { LLMDelegate, LLMConversation, LLMToolCall, LLMTool } from './loop.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * How tools are exposed to the model:
+ *   - 'tools': native `tools` / `tool_calls` fields of the chat completions API.
+ *   - 'json': tools are described in the system prompt and the model replies with a JSON object,
+ *     for models and servers without native tool calling support.
+ */
+export type LocalDialect = 'tools' | 'json';
+
+export type LocalDelegateOptions = {
+  baseURL: string;
+  model: string;
+  dialect?: LocalDialect;
+  apiKey?: string;
+};
+
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+type ChatToolCall = {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+};
+
+type ChatCompletion = {
+  choices?: { message: { content: string | null; tool_calls?: ChatToolCall[] } }[];
+  usage?: { total_tokens?: number };
+};
+
+export class LocalDelegate implements LLMDelegate {
+  private _options: LocalDelegateOptions;
+  private _lastCallId = 0;
+
+  constructor(options: LocalDelegateOptions) {
+    this._options = options;
+  }
+
+  createConversation(task: string, tools: Tool[], oneShot: boolean): LLMConversation {
+    const llmTools: LLMTool[] = tools.map(tool => ({
+      name: tool.name,
+      description: tool.description || '',
+      inputSchema: tool.inputSchema,
+    }));
+
+    if (!oneShot) {
+      llmTools.push({
+        name: 'done',
+        description: 'Call this tool when the task is complete.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      });
+    }
+
+    return {
+      messages: [{
+        role: 'user',
+        content: task
+      }],
+      tools: llmTools,
+    };
+  }
+
+  async makeApiCall(conversation: LLMConversation, signal?: AbortSignal): Promise<LLMToolCall[]> {
+    const dialect = this._options.dialect ?? 'tools';
+    const body: Record<string, any> = {
+      model: this._options.model,
+      messages: dialect === 'tools' ? this._toolsMessages(conversation) : this._jsonMessages(conversation),
+    };
+    if (dialect === 'tools') {
+      body.tools = conversation.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema,
+        },
+      }));
+      body.tool_choice = 'auto';
+    }
+
+    const response = await fetch(new URL('chat/completions', this._options.baseURL.replace(/\/?$/, '/')), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this._options.apiKey ? { 'Authorization': `Bearer ${this._options.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok)
+      throw new Error(`LLM request to ${this._options.baseURL} failed with ${response.status}: ${await response.text()}`);
+
+    const completion = (await response.json()) as ChatCompletion;
+    conversation.totalTokens = (conversation.totalTokens ?? 0) + (completion.usage?.total_tokens ?? 0);
+    const message = completion.choices?.[0]?.message;
+    if (!message) {
+      const toolCall = { name: 'invalid_response', arguments: {}, id: this._nextCallId(), error: 'The response contained no choices, reply with a tool call.' };
+      conversation.messages.push({ role: 'assistant', content: '', toolCalls: [toolCall] });
+      return [toolCall];
+    }
+    const toolCalls = dialect === 'tools' ? this._parseToolCalls(message.tool_calls ?? []) : this._parseJsonToolCalls(message.content ?? '');
+
+    conversation.messages.push({
+      role: 'assistant',
+      content: message.content || '',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    });
+
+    return toolCalls;
+  }
+
+  addToolResults(
+    conversation: LLMConversation,
+    results: Array<{ toolCallId: string; content: string; isError?: boolean }>
+  ): void {
+    for (const result of results) {
+      conversation.messages.push({
+        role: 'tool',
+        toolCallId: result.toolCallId,
+        content: result.content,
+        isError: result.isError,
+      });
+    }
+  }
+
+  checkDoneToolCall(toolCall: LLMToolCall): string | null {
+    if (toolCall.name === 'done')
+      return toolCall.arguments.result;
+
+    return null;
+  }
+
+  private _toolsMessages(conversation: LLMConversation): ChatMessage[] {
+    return conversation.messages.map(message => {
+      if (message.role === 'user')
+        return { role: 'user', content: message.content };
+      if (message.role === 'tool')
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls?.map(toolCall => ({
+          id: toolCall.id,
+          type: 'function',
+          function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) },
+        })),
+      };
+    });
+  }
+
+  private _jsonMessages(conversation: LLMConversation): ChatMessage[] {
+    const toolDescriptions = conversation.tools.map(tool => `- ${tool.name}: ${tool.description}\n  Input schema: ${JSON.stringify(tool.inputSchema)}`);
+    const messages: ChatMessage[] = [{
+      role: 'system',
+      content: [
+        'You can use the following tools:',
+        ...toolDescriptions,
+        '',
+        'To call a tool, reply with a single JSON object and nothing else:',
+        '{"name": "<tool name>", "arguments": { ... }}',
+      ].join('\n'),
+    }];
+    for (const message of conversation.messages) {
+      if (message.role === 'user')
+        messages.push({ role: 'user', content: message.content });
+      else if (message.role === 'tool')
+        messages.push({ role: 'user', content: `Tool result${message.isError ? ' (error)' : ''}:\n${message.content}` });
+      else
+        messages.push({ role: 'assistant', content: message.content });
+    }
+    return messages;
+  }
+
+  private _parseToolCalls(toolCalls: ChatToolCall[]): LLMToolCall[] {
+    return toolCalls.map(toolCall => {
+      const result: LLMToolCall = { name: toolCall.function.name, arguments: {}, id: toolCall.id || this._nextCallId() };
+      try {
+        if (toolCall.function.arguments)
+          result.arguments = JSON.parse(toolCall.function.arguments);
+      } catch (error) {
+        result.error = `Arguments are not valid JSON: ${(error as Error).message}`;
+      }
+      return result;
+    });
+  }
+
+  private _parseJsonToolCalls(content: string): LLMToolCall[] {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end < start)
+      return [];
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content.substring(start, end + 1));
+    } catch {
+      return [];
+    }
+    if (typeof parsed?.name !== 'string')
+      return [];
+    return [{ name: parsed.name, arguments: parsed.arguments ?? {}, id: this._nextCallId() }];
+  }
+
+  private _nextCallId(): string {
+    return `call_${++this._lastCallId}`;
+  }
+}
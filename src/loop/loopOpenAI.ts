@@ -58,7 +58,7 @@ export class OpenAIDelegate implements LLMDelegate {
     };
   }
 
-  async makeApiCall(conversation: LLMConversation): Promise<LLMToolCall[]> {
+  async makeApiCall(conversation: LLMConversation, signal?: AbortSignal): Promise<LLMToolCall[]> {
     // Convert generic messages to OpenAI format
     const openaiMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
 
@@ -120,9 +120,10 @@ export class OpenAIDelegate implements LLMDelegate {
       messages: openaiMessages,
       tools: openaiTools,
       tool_choice: 'auto'
-    });
+    }, { signal });
 
     const message = response.choices[0].message;
+    conversation.totalTokens = (conversation.totalTokens ?? 0) + (response.usage?.total_tokens ?? 0);
 
     // Extract tool calls and add assistant message to generic conversation
     const toolCalls = message.tool_calls || [];
@@ -0,0 +1,144 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+
+import type { LLMDelegate, LLMConversation, LLMToolCall, LLMTool } from './loop.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * One line of a replay file: the tool calls the model made in one turn.
+ */
+type ReplayStep = {
+  toolCalls: { name: string; arguments?: any }[];
+};
+
+/**
+ * Plays back tool calls recorded in a JSONL file instead of calling a model, one line per turn.
+ * A line is either `{"toolCalls": [{"name": ..., "arguments": ...}]}` or a single `{"name": ..., "arguments": ...}`.
+ */
+export class ReplayDelegate implements LLMDelegate {
+  private _file: string;
+  private _steps: ReplayStep[] | undefined;
+  private _lastCallId = 0;
+
+  constructor(file: string) {
+    this._file = file;
+  }
+
+  createConversation(task: string, tools: Tool[], oneShot: boolean): LLMConversation {
+    const llmTools: LLMTool[] = tools.map(tool => ({
+      name: tool.name,
+      description: tool.description || '',
+      inputSchema: tool.inputSchema,
+    }));
+
+    return {
+      messages: [{
+        role: 'user',
+        content: task
+      }],
+      tools: llmTools,
+    };
+  }
+
+  async makeApiCall(conversation: LLMConversation): Promise<LLMToolCall[]> {
+    if (!this._steps)
+      this._steps = await readReplaySteps(this._file);
+    const step = this._steps.shift();
+    if (!step)
+      throw new Error(`No more recorded tool calls in ${this._file}`);
+
+    const toolCalls = step.toolCalls.map(toolCall => ({
+      name: toolCall.name,
+      arguments: toolCall.arguments ?? {},
+      id: `replay_${++this._lastCallId}`,
+    }));
+    conversation.messages.push({
+      role: 'assistant',
+      content: '',
+      toolCalls,
+    });
+    return toolCalls;
+  }
+
+  addToolResults(
+    conversation: LLMConversation,
+    results: Array<{ toolCallId: string; content: string; isError?: boolean }>
+  ): void {
+    for (const result of results) {
+      conversation.messages.push({
+        role: 'tool',
+        toolCallId: result.toolCallId,
+        content: result.content,
+        isError: result.isError,
+      });
+    }
+  }
+
+  checkDoneToolCall(toolCall: LLMToolCall): string | null {
+    if (toolCall.name === 'done')
+      return toolCall.arguments.result ?? '';
+
+    return null;
+  }
+}
+
+/**
+ * Wraps a delegate and appends the tool calls it makes to a JSONL file that ReplayDelegate can play back.
+ */
+export class RecordingDelegate implements LLMDelegate {
+  private _delegate: LLMDelegate;
+  private _file: string;
+
+  constructor(delegate: LLMDelegate, file: string) {
+    this._delegate = delegate;
+    this._file = file;
+  }
+
+  createConversation(task: string, tools: Tool[], oneShot: boolean): LLMConversation {
+    return this._delegate.createConversation(task, tools, oneShot);
+  }
+
+  async makeApiCall(conversation: LLMConversation, signal?: AbortSignal): Promise<LLMToolCall[]> {
+    const toolCalls = await this._delegate.makeApiCall(conversation, signal);
+    const step: ReplayStep = { toolCalls: toolCalls.map(({ name, arguments: args }) => ({ name, arguments: args })) };
+    await fs.promises.appendFile(this._file, JSON.stringify(step) + '\n');
+    return toolCalls;
+  }
+
+  addToolResults(conversation: LLMConversation, results: Array<{ toolCallId: string; content: string; isError?: boolean }>): void {
+    this._delegate.addToolResults(conversation, results);
+  }
+
+  checkDoneToolCall(toolCall: LLMToolCall): string | null {
+    return this._delegate.checkDoneToolCall(toolCall);
+  }
+}
+
+async function readReplaySteps(file: string): Promise<ReplayStep[]> {
+  const lines = (await fs.promises.readFile(file, 'utf-8')).split('\n').filter(line => line.trim());
+  return lines.map((line, index) => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${index + 1} of ${file}: ${(error as Error).message}`);
+    }
+    return Array.isArray(parsed.toolCalls) ? parsed : { toolCalls: [parsed] };
+  });
+}
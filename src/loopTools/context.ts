@@ -21,10 +21,13 @@ import { Context as BrowserContext } from '../context.js';
 import { runTask } from '../loop/loop.js';
 import { OpenAIDelegate } from '../loop/loopOpenAI.js';
 import { ClaudeDelegate } from '../loop/loopClaude.js';
+import { LocalDelegate } from '../loop/loopLocal.js';
+import { RecordingDelegate, ReplayDelegate } from '../loop/loopReplay.js';
 import { InProcessTransport } from '../mcp/inProcessTransport.js';
 import * as mcpServer from '../mcp/server.js';
 
 import type { LLMDelegate } from '../loop/loop.js';
+import type { LocalDialect } from '../loop/loopLocal.js';
 import type { FullConfig } from '../config.js';
 
 export class Context {
@@ -35,12 +38,7 @@ export class Context {
   constructor(config: FullConfig, client: Client) {
     this.config = config;
     this._client = client;
-    if (process.env.OPENAI_API_KEY)
-      this._delegate = new OpenAIDelegate();
-    else if (process.env.ANTHROPIC_API_KEY)
-      this._delegate = new ClaudeDelegate();
-    else
-      throw new Error('No LLM API key found. Please set OPENAI_API_KEY or ANTHROPIC_API_KEY environment variable.');
+    this._delegate = createDelegate();
   }
 
   static async create(config: FullConfig) {
@@ -52,8 +50,16 @@ export class Context {
     return new Context(config, client);
   }
 
-  async runTask(task: string, oneShot: boolean = false): Promise<mcpServer.ToolResponse> {
-    const messages = await runTask(this._delegate, this._client!, task, oneShot);
+  async runTask(task: string, oneShot: boolean = false, extra?: mcpServer.ToolCallExtra): Promise<mcpServer.ToolResponse> {
+    let steps = 0;
+    const messages = await runTask(this._delegate, this._client!, task, oneShot, {
+      ...this.config.loop,
+      signal: extra?.signal,
+      onStep: async step => {
+        const status = step.isError ? 'failed' : 'done';
+        await extra?.progress(++steps, `${step.toolCall.name} ${status}`);
+      },
+    });
     const lines: string[] = [];
 
     // Skip the first message, which is the user's task.
@@ -75,3 +81,33 @@ export class Context {
     await BrowserContext.disposeAll();
   }
 }
+
+function createDelegate(): LLMDelegate {
+  if (process.env.PLAYWRIGHT_MCP_LLM_REPLAY)
+    return new ReplayDelegate(process.env.PLAYWRIGHT_MCP_LLM_REPLAY);
+
+  let delegate: LLMDelegate;
+  if (process.env.PLAYWRIGHT_MCP_LLM_BASE_URL) {
+    if (!process.env.PLAYWRIGHT_MCP_LLM_MODEL)
+      throw new Error('PLAYWRIGHT_MCP_LLM_MODEL environment variable is required with PLAYWRIGHT_MCP_LLM_BASE_URL.');
+    const dialect = process.env.PLAYWRIGHT_MCP_LLM_DIALECT as LocalDialect | undefined;
+    if (dialect && dialect !== 'tools' && dialect !== 'json')
+      throw new Error(`Invalid PLAYWRIGHT_MCP_LLM_DIALECT "${dialect}", expected "tools" or "json".`);
+    delegate = new LocalDelegate({
+      baseURL: process.env.PLAYWRIGHT_MCP_LLM_BASE_URL,
+      model: process.env.PLAYWRIGHT_MCP_LLM_MODEL,
+      dialect,
+      apiKey: process.env.PLAYWRIGHT_MCP_LLM_API_KEY,
+    });
+  } else if (process.env.OPENAI_API_KEY) {
+    delegate = new OpenAIDelegate();
+  } else if (process.env.ANTHROPIC_API_KEY) {
+    delegate = new ClaudeDelegate();
+  } else {
+    throw new Error('No LLM configured. Please set OPENAI_API_KEY, ANTHROPIC_API_KEY, PLAYWRIGHT_MCP_LLM_BASE_URL or PLAYWRIGHT_MCP_LLM_REPLAY environment variable.');
+  }
+
+  if (process.env.PLAYWRIGHT_MCP_LLM_RECORD)
+    return new RecordingDelegate(delegate, process.env.PLAYWRIGHT_MCP_LLM_RECORD);
+  return delegate;
+}
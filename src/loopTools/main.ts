@@ -52,9 +52,9 @@ class LoopToolsServerBackend implements ServerBackend {
     return this._tools.map(tool => tool.schema);
   }
 
-  async callTool(schema: mcpServer.ToolSchema<any>, parsedArguments: any): Promise<mcpServer.ToolResponse> {
+  async callTool(schema: mcpServer.ToolSchema<any>, parsedArguments: any, extra: mcpServer.ToolCallExtra): Promise<mcpServer.ToolResponse> {
     const tool = this._tools.find(tool => tool.schema.name === schema.name)!;
-    return await tool.handle(this._context!, parsedArguments);
+    return await tool.handle(this._context!, parsedArguments, extra);
   }
 
   serverClosed() {
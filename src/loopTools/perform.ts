@@ -30,7 +30,7 @@ export const perform = defineTool({
     type: 'destructive',
   },
 
-  handle: async (context, params) => {
-    return await context.runTask(params.task);
+  handle: async (context, params, extra) => {
+    return await context.runTask(params.task, false, extra);
   },
 });
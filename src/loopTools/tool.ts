@@ -21,7 +21,7 @@ import type { Context } from './context.js';
 
 export type Tool<Input extends z.Schema = z.Schema> = {
   schema: mcpServer.ToolSchema<Input>;
-  handle: (context: Context, params: z.output<Input>) => Promise<mcpServer.ToolResponse>;
+  handle: (context: Context, params: z.output<Input>, extra: mcpServer.ToolCallExtra) => Promise<mcpServer.ToolResponse>;
 };
 
 export function defineTool<Input extends z.Schema>(tool: Tool<Input>): Tool<Input> {
@@ -45,12 +45,19 @@ export type ToolSchema<Input extends z.Schema> = {
 
 export type ToolHandler = (toolName: string, params: any) => Promise<ToolResponse>;
 
+export type ToolCallExtra = {
+  // Aborted when the client cancels the tool call.
+  signal: AbortSignal;
+  // Reports progress to the client, no-op unless the client asked for progress notifications.
+  progress: (progress: number, message?: string) => Promise<void>;
+};
+
 export interface ServerBackend {
   name: string;
   version: string;
   initialize?(): Promise<void>;
   tools(): ToolSchema<any>[];
-  callTool(schema: ToolSchema<any>, parsedArguments: any): Promise<ToolResponse>;
+  callTool(schema: ToolSchema<any>, parsedArguments: any, extra: ToolCallExtra): Promise<ToolResponse>;
   serverInitialized?(version: ClientVersion | undefined): void;
   serverClosed?(): void;
 }
@@ -86,7 +93,7 @@ export function createServer(backend: ServerBackend): Server {
     })) };
   });
 
-  server.setRequestHandler(CallToolRequestSchema, async request => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const errorResult = (...messages: string[]) => ({
       content: [{ type: 'text', text: messages.join('\n') }],
       isError: true,
@@ -95,8 +102,17 @@ export function createServer(backend: ServerBackend): Server {
     if (!tool)
       return errorResult(`Tool "${request.params.name}" not found`);
 
+    const progressToken = request.params._meta?.progressToken;
+    const toolCallExtra: ToolCallExtra = {
+      signal: extra.signal,
+      progress: async (progress, message) => {
+        if (progressToken !== undefined)
+          await extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress, message } });
+      },
+    };
+
     try {
-      return await backend.callTool(tool, tool.inputSchema.parse(request.params.arguments || {}));
+      return await backend.callTool(tool, tool.inputSchema.parse(request.params.arguments || {}), toolCallExtra);
     } catch (error) {
       return errorResult(String(error));
     }
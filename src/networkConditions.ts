@@ -0,0 +1,118 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { logUnhandledError } from './log.js';
+
+import type * as playwright from 'playwright';
+import type { FullConfig } from './config.js';
+
+export type NetworkThrottling = {
+  // Milliseconds of added round-trip latency.
+  latency: number;
+  // Kilobits per second, 0 for unlimited.
+  downloadThroughput: number;
+  uploadThroughput: number;
+};
+
+// Same values as the Chrome DevTools presets.
+export const throttlingPresets: Record<'slow-3g' | 'fast-3g', NetworkThrottling> = {
+  'slow-3g': { latency: 2000, downloadThroughput: 400, uploadThroughput: 400 },
+  'fast-3g': { latency: 563, downloadThroughput: 1475, uploadThroughput: 675 },
+};
+
+export type NetworkConditionsState = {
+  offline: boolean;
+  throttling: NetworkThrottling | undefined;
+  cpuThrottlingRate: number;
+};
+
+/**
+ * Emulates offline mode, network throttling and CPU slowdown for all browser contexts.
+ * Chromium uses CDP, Firefox and WebKit only get route-based latency.
+ */
+export class NetworkConditions {
+  private _state: NetworkConditionsState;
+  private _isChromium: boolean;
+  private _sessions = new WeakMap<playwright.Page, Promise<playwright.CDPSession>>();
+  private _latencyRoutes = new WeakSet<playwright.BrowserContext>();
+
+  constructor(config: FullConfig) {
+    const throttling = config.network.throttling;
+    this._state = {
+      offline: !!config.network.offline,
+      throttling: typeof throttling === 'string' ? throttlingPresets[throttling] : throttling,
+      cpuThrottlingRate: config.cpuThrottling ?? 1,
+    };
+    this._isChromium = config.browser.browserName === 'chromium';
+  }
+
+  state(): NetworkConditionsState {
+    return this._state;
+  }
+
+  isChromium(): boolean {
+    return this._isChromium;
+  }
+
+  update(update: Partial<NetworkConditionsState>) {
+    if (update.cpuThrottlingRate !== undefined && update.cpuThrottlingRate !== 1 && !this._isChromium)
+      throw new Error('CPU throttling is only supported in Chromium');
+    this._state = { ...this._state, ...update };
+  }
+
+  async applyToBrowserContext(browserContext: playwright.BrowserContext) {
+    await browserContext.setOffline(this._state.offline);
+    if (this._isChromium || !this._state.throttling || this._latencyRoutes.has(browserContext))
+      return;
+    this._latencyRoutes.add(browserContext);
+    await browserContext.route('**', async route => {
+      const latency = this._state.throttling?.latency;
+      if (latency)
+        await new Promise(f => setTimeout(f, latency));
+      await route.fallback();
+    });
+  }
+
+  async applyToPage(page: playwright.Page) {
+    if (!this._isChromium)
+      return;
+    const hasSession = this._sessions.has(page);
+    if (!hasSession && !this._state.throttling && this._state.cpuThrottlingRate === 1)
+      return;
+    if (!hasSession)
+      this._sessions.set(page, page.context().newCDPSession(page));
+    const session = await this._sessions.get(page)!;
+    const throttling = this._state.throttling;
+    await session.send('Network.enable');
+    await session.send('Network.emulateNetworkConditions', {
+      offline: this._state.offline,
+      latency: throttling?.latency ?? 0,
+      downloadThroughput: kbpsToBytes(throttling?.downloadThroughput ?? 0),
+      uploadThroughput: kbpsToBytes(throttling?.uploadThroughput ?? 0),
+    });
+    await session.send('Emulation.setCPUThrottlingRate', { rate: this._state.cpuThrottlingRate });
+  }
+
+  onPageCreated(page: playwright.Page) {
+    void this.applyToPage(page).catch(logUnhandledError);
+  }
+}
+
+// Zero means unlimited, which is -1 in CDP.
+export function kbpsToBytes(kbps: number): number {
+  return kbps > 0 ? kbps * 1024 / 8 : -1;
+}
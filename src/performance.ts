@@ -0,0 +1,114 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+export type PagePerformance = {
+  navigation: {
+    timeToFirstByte: number;
+    firstContentfulPaint: number | undefined;
+    domContentLoaded: number;
+    load: number;
+  } | undefined;
+  observed: boolean;
+  largestContentfulPaint: { time: number, element: string | undefined } | undefined;
+  cumulativeLayoutShift: number;
+  interactionToNextPaint: number | undefined;
+  totalBlockingTime: number;
+  longTasks: { count: number, duration: number };
+  jsHeap: { used: number, total: number } | undefined;
+};
+
+type ObservedEntries = {
+  lcp?: { time: number, element: string | undefined };
+  shifts: { time: number, value: number }[];
+  longTasks: { time: number, duration: number }[];
+  interactions: number[];
+};
+
+/**
+ * Installed as a browser context init script when the performance capability is enabled.
+ * Web Vitals entries are only reported to observers, so they need to be collected from the
+ * start of the page load. Must be self-contained.
+ */
+export function observePerformance() {
+  const entries: ObservedEntries = { shifts: [], longTasks: [], interactions: [] };
+  Object.defineProperty(window, '__playwrightMcpPerformance', { value: entries, enumerable: false });
+  const observe = (type: string, callback: (entry: any) => void) => {
+    try {
+      new PerformanceObserver(list => list.getEntries().forEach(callback)).observe({ type, buffered: true, ...(type === 'event' ? { durationThreshold: 16 } : {}) } as PerformanceObserverInit);
+    } catch {
+      // Entry type is not supported by this browser.
+    }
+  };
+  observe('largest-contentful-paint', entry => {
+    entries.lcp = { time: entry.startTime, element: entry.element?.tagName.toLowerCase() };
+  });
+  observe('layout-shift', entry => {
+    if (!entry.hadRecentInput)
+      entries.shifts.push({ time: entry.startTime, value: entry.value });
+  });
+  observe('longtask', entry => entries.longTasks.push({ time: entry.startTime, duration: entry.duration }));
+  observe('event', entry => {
+    if (entry.interactionId)
+      entries.interactions.push(entry.duration);
+  });
+}
+
+/**
+ * Runs in the page and summarizes the navigation timing and the entries collected by
+ * observePerformance. Must be self-contained.
+ */
+export function collectPerformance(): PagePerformance {
+  const entries = (window as any).__playwrightMcpPerformance as ObservedEntries | undefined;
+  const navigationEntry = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+  const firstContentfulPaint = performance.getEntriesByName('first-contentful-paint')[0]?.startTime;
+
+  // Layout shifts are grouped into session windows with gaps under 1s and at most 5s long, the largest window wins.
+  let cumulativeLayoutShift = 0;
+  let session = { start: 0, end: 0, value: 0 };
+  for (const shift of entries?.shifts ?? []) {
+    if (!session.value || shift.time - session.end > 1000 || shift.time - session.start > 5000)
+      session = { start: shift.time, end: shift.time, value: 0 };
+    session.end = shift.time;
+    session.value += shift.value;
+    cumulativeLayoutShift = Math.max(cumulativeLayoutShift, session.value);
+  }
+
+  // Total blocking time is the part of each long task over 50ms, after the first contentful paint.
+  const longTasks = entries?.longTasks ?? [];
+  const totalBlockingTime = longTasks
+      .filter(task => firstContentfulPaint === undefined || task.time >= firstContentfulPaint)
+      .reduce((total, task) => total + Math.max(0, task.duration - 50), 0);
+
+  // Interaction to next paint is approximated with the slowest interaction.
+  const interactions = entries?.interactions ?? [];
+  const memory = (performance as any).memory;
+  return {
+    navigation: navigationEntry ? {
+      timeToFirstByte: navigationEntry.responseStart,
+      firstContentfulPaint,
+      domContentLoaded: navigationEntry.domContentLoadedEventEnd,
+      load: navigationEntry.loadEventEnd,
+    } : undefined,
+    observed: !!entries,
+    largestContentfulPaint: entries?.lcp,
+    cumulativeLayoutShift,
+    interactionToNextPaint: interactions.length ? Math.max(...interactions) : undefined,
+    totalBlockingTime,
+    longTasks: { count: longTasks.length, duration: longTasks.reduce((total, task) => total + task.duration, 0) },
+    jsHeap: memory ? { used: memory.usedJSHeapSize, total: memory.totalJSHeapSize } : undefined,
+  };
+}
@@ -30,36 +30,51 @@ import { runLoopTools } from './loopTools/main.js';
 program
     .version('Version ' + packageJSON.version)
     .name(packageJSON.name)
+    .option('--allowed-download-extensions <extensions>', 'comma-separated list of file extensions to allow downloading, for example ".csv,.pdf". Default is to allow all.', commaSeparatedList)
     .option('--allowed-origins <origins>', 'semicolon-separated list of origins to allow the browser to request. Default is to allow all.', semicolonSeparatedList)
     .option('--blocked-origins <origins>', 'semicolon-separated list of origins to block the browser from requesting. Blocklist is evaluated before allowlist. If used without the allowlist, requests not matching the blocklist are still allowed.', semicolonSeparatedList)
     .option('--block-service-workers', 'block service workers')
     .option('--browser <browser>', 'browser or chrome channel to use, possible values: chrome, firefox, webkit, msedge.')
-    .option('--caps <caps>', 'comma-separated list of additional capabilities to enable, possible values: vision, pdf.', commaSeparatedList)
+    .option('--caps <caps>', 'comma-separated list of additional capabilities to enable, possible values: vision, pdf, network, storage, testing, performance, emulation, downloads.', commaSeparatedList)
     .option('--cdp-endpoint <endpoint>', 'CDP endpoint to connect to.')
     .option('--config <path>', 'path to the configuration file.')
+    .option('--cpu-throttling <rate>', 'CPU slowdown factor, for example 4 for a 4x slowdown. Chromium only.', parseFloat)
     .option('--device <device>', 'device to emulate, for example: "iPhone 15"')
+    .option('--dialog-policy <action>', 'handle all dialogs automatically: "accept" or "dismiss". By default dialogs are handled with the browser_handle_dialog tool.')
     .option('--executable-path <path>', 'path to the browser executable.')
     .option('--headless', 'run browser in headless mode, headed by default')
     .option('--host <host>', 'host to bind server to. Default is localhost. Use 0.0.0.0 to bind to all interfaces.')
     .option('--ignore-https-errors', 'ignore https errors')
     .option('--isolated', 'keep the browser profile in memory, do not save it to disk.')
     .option('--image-responses <mode>', 'whether to send image responses to the client. Can be "allow" or "omit", Defaults to "allow".')
+    .option('--max-download-size <bytes>', 'maximum size of a download in bytes, larger downloads are removed.', parseInt)
+    .option('--network-throttling <throttling>', 'network throttling to apply: "slow-3g", "fast-3g" or "latency,download,upload" in milliseconds and kbit/s.')
     .option('--no-sandbox', 'disable the sandbox for all process types that are normally sandboxed.')
+    .option('--offline', 'emulate network being offline.')
     .option('--output-dir <path>', 'path to the directory for output files.')
     .option('--port <port>', 'port to listen on for SSE transport.')
     .option('--proxy-bypass <bypass>', 'comma-separated domains to bypass proxy, for example ".com,chromium.org,.domain.com"')
     .option('--proxy-server <proxy>', 'specify proxy server, for example "http://myproxy:3128" or "socks5://myproxy:8080"')
+    .option('--reject-downloads', 'reject all downloads.')
+    .option('--replay-har <path>', 'path to a HAR file to serve network responses from, requests not found in the HAR are aborted.')
     .option('--record-video <mode>', 'record video mode: "off", "on", "retain-on-failure", or "on-first-retry"')
     .option('--record-video-size <size>', 'video size in pixels, for example "800,600"')
+    .option('--save-har', 'Whether to save the network traffic of the session into a HAR file in the output directory.')
     .option('--save-session', 'Whether to save the Playwright MCP session into the output directory.')
+    .option('--save-test', 'Whether to save the session as a Playwright test file into the output directory.')
     .option('--save-trace', 'Whether to save the Playwright Trace of the session into the output directory.')
+    .option('--snapshot-mode <mode>', 'how snapshots are reported after actions: "full" or "incremental" (only changes since the previous snapshot). Defaults to "full".')
     .option('--storage-state <path>', 'path to the storage state file for isolated sessions.')
     .option('--truncate-snapshot <tokens>', 'maximum tokens for snapshots (0 to disable truncation)', parseInt)
+    .option('--truncate-strategy <strategy>', 'how large snapshots are truncated: "paginate" (split into pages) or "collapse" (collapse deep subtrees and long lists). Defaults to "paginate".')
     .option('--user-agent <ua string>', 'specify user agent string')
     .option('--user-data-dir <path>', 'path to the user data directory. If not specified, a temporary directory will be created.')
     .option('--viewport-size <size>', 'specify browser viewport size in pixels, for example "1280, 720"')
     .addOption(new Option('--extension', 'Connect to a running browser instance (Edge/Chrome only). Requires the "Playwright MCP Bridge" browser extension to be installed.').hideHelp())
     .addOption(new Option('--loop-tools', 'Run loop tools').hideHelp())
+    .addOption(new Option('--loop-max-iterations <count>', 'Maximum number of model turns per loop task, defaults to 5').argParser(parseInt).hideHelp())
+    .addOption(new Option('--loop-max-tokens <tokens>', 'Maximum number of tokens per loop task').argParser(parseInt).hideHelp())
+    .addOption(new Option('--loop-timeout <ms>', 'Maximum time per loop task in milliseconds').argParser(parseInt).hideHelp())
     .addOption(new Option('--vision', 'Legacy option, use --caps=vision instead').hideHelp())
     .action(async options => {
       const abortController = setupExitWatchdog();
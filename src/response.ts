@@ -23,7 +23,10 @@ export class Response {
   private _images: { contentType: string, data: Buffer }[] = [];
   private _context: Context;
   private _includeSnapshot = false;
+  private _includeFullSnapshot = false;
   private _includeTabs = false;
+  private _isError = false;
+  private _codeIsStandalone = true;
   private _snapshot: string | undefined;
   private _truncateParams: { maxTokens: number; pageNum?: number } | undefined;
 
@@ -52,6 +55,15 @@ export class Response {
     return this._code.join('\n');
   }
 
+  // Marks the code as relying on objects that are not created in it, such as a download or a file chooser.
+  setCodeNotStandalone() {
+    this._codeIsStandalone = false;
+  }
+
+  codeIsStandalone() {
+    return this._codeIsStandalone;
+  }
+
   addImage(image: { contentType: string, data: Buffer }) {
     this._images.push(image);
   }
@@ -60,10 +72,23 @@ export class Response {
     return this._images;
   }
 
+  setIsError() {
+    this._isError = true;
+  }
+
+  isError() {
+    return this._isError;
+  }
+
   setIncludeSnapshot() {
     this._includeSnapshot = true;
   }
 
+  setIncludeFullSnapshot() {
+    this._includeSnapshot = true;
+    this._includeFullSnapshot = true;
+  }
+
   setIncludeTabs() {
     this._includeTabs = true;
   }
@@ -76,13 +101,13 @@ export class Response {
     if (this._snapshot !== undefined)
       return this._snapshot;
     if (this._includeSnapshot && this._context.currentTab())
-      this._snapshot = await this._context.currentTabOrDie().captureSnapshot(this._truncateParams);
+      this._snapshot = await this._context.currentTabOrDie().captureSnapshot(this._truncateParams, { full: this._includeFullSnapshot });
     else
       this._snapshot = '';
     return this._snapshot;
   }
 
-  async serialize(): Promise<{ content: (TextContent | ImageContent)[] }> {
+  async serialize(): Promise<{ content: (TextContent | ImageContent)[], isError?: boolean }> {
     const response: string[] = [];
 
     // Start with command result.
@@ -121,6 +146,6 @@ ${this._code.join('\n')}
         content.push({ type: 'image', data: image.data.toString('base64'), mimeType: image.contentType });
     }
 
-    return { content };
+    return { content, ...(this._isError ? { isError: true } : {}) };
   }
 }
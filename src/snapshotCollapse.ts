@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { parseSnapshot } from './snapshotDiff.js';
+
+import type { SnapshotNode } from './snapshotDiff.js';
+
+type CollapseOptions = {
+  maxDepth: number;
+  maxSiblings: number;
+};
+
+// Progressively more aggressive settings, the first one that fits the token budget wins.
+const collapseSteps: CollapseOptions[] = [
+  { maxDepth: Infinity, maxSiblings: 10 },
+  { maxDepth: 12, maxSiblings: 10 },
+  { maxDepth: 10, maxSiblings: 10 },
+  { maxDepth: 8, maxSiblings: 5 },
+  { maxDepth: 6, maxSiblings: 5 },
+  { maxDepth: 4, maxSiblings: 5 },
+  { maxDepth: 3, maxSiblings: 3 },
+  { maxDepth: 2, maxSiblings: 3 },
+];
+
+/**
+ * Collapses deep subtrees and long runs of same-role siblings into placeholders
+ * that reference the ref of the collapsed element, until the snapshot fits into maxTokens.
+ */
+export function collapseSnapshot(yaml: string, maxTokens: number, countTokens: (text: string) => number): string {
+  if (countTokens(yaml) <= maxTokens)
+    return yaml;
+
+  const root = parseSnapshot(yaml);
+  let result = yaml;
+  for (const options of collapseSteps) {
+    result = root.children.map(child => renderCollapsed(child, 1, '', options).join('\n')).join('\n');
+    if (countTokens(result) <= maxTokens)
+      break;
+  }
+  return result;
+}
+
+function renderCollapsed(node: SnapshotNode, depth: number, indent: string, options: CollapseOptions): string[] {
+  const lines = [indent + node.line];
+  if (!node.children.length)
+    return lines;
+
+  if (node.ref && depth >= options.maxDepth) {
+    lines.push(`${indent}  - ... ${countDescendants(node)} nested elements collapsed, use browser_snapshot_expand with ref=${node.ref}`);
+    return lines;
+  }
+
+  const roleCounts = new Map<string, number>();
+  const collapsedRoles = new Map<string, number>();
+  for (const child of node.children) {
+    const role = child.line.replace(/^- /, '').split(/[\s:]/)[0];
+    const count = (roleCounts.get(role) ?? 0) + 1;
+    roleCounts.set(role, count);
+    if (node.ref && child.ref && count > options.maxSiblings) {
+      collapsedRoles.set(role, (collapsedRoles.get(role) ?? 0) + 1);
+      continue;
+    }
+    lines.push(...renderCollapsed(child, depth + 1, indent + '  ', options));
+  }
+  for (const [role, count] of collapsedRoles)
+    lines.push(`${indent}  - ... ${count} more ${role} elements collapsed, use browser_snapshot_expand with ref=${node.ref}`);
+  return lines;
+}
+
+function countDescendants(node: SnapshotNode): number {
+  return node.children.reduce((count, child) => count + 1 + countDescendants(child), 0);
+}
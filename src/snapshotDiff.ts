@@ -0,0 +1,147 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type SnapshotNode = {
+  line: string;
+  indent: number;
+  ref: string | undefined;
+  children: SnapshotNode[];
+  parent: SnapshotNode | undefined;
+};
+
+export function parseSnapshot(yaml: string): SnapshotNode {
+  const root: SnapshotNode = { line: '', indent: -1, ref: undefined, children: [], parent: undefined };
+  const stack = [root];
+  for (const line of yaml.split('\n')) {
+    if (!line.trim())
+      continue;
+    const indent = line.length - line.trimStart().length;
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent)
+      stack.pop();
+    const parent = stack[stack.length - 1];
+    const node: SnapshotNode = {
+      line: line.trim(),
+      indent,
+      ref: line.match(/\[ref=([^\]]+)\]/)?.[1],
+      children: [],
+      parent,
+    };
+    parent.children.push(node);
+    stack.push(node);
+  }
+  return root;
+}
+
+export function renderSubtree(node: SnapshotNode, indent: number = 0): string[] {
+  const result = [' '.repeat(indent) + node.line];
+  for (const child of node.children)
+    result.push(...renderSubtree(child, indent + 2));
+  return result;
+}
+
+export function collectRefs(root: SnapshotNode): Map<string, SnapshotNode> {
+  const result = new Map<string, SnapshotNode>();
+  const visit = (node: SnapshotNode) => {
+    if (node.ref)
+      result.set(node.ref, node);
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return result;
+}
+
+/**
+ * Returns the lines of the node itself along with its descendants that do not have
+ * their own ref, such as text and attribute entries. Descendants with refs are
+ * compared separately.
+ */
+function ownContent(node: SnapshotNode, indent: number = 0): string[] {
+  const result = node.line ? [' '.repeat(indent) + node.line] : [];
+  for (const child of node.children) {
+    if (!child.ref)
+      result.push(...ownContent(child, node.line ? indent + 2 : indent));
+  }
+  return result;
+}
+
+function refAncestor(node: SnapshotNode): SnapshotNode | undefined {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent.ref)
+      return parent;
+  }
+  return undefined;
+}
+
+/**
+ * Computes the changes between two `_snapshotForAI` snapshots, keyed by element refs.
+ * Returns undefined when the diff would not be smaller than the current snapshot.
+ */
+export function diffSnapshots(previous: string, current: string): string | undefined {
+  const previousRoot = parseSnapshot(previous);
+  const currentRoot = parseSnapshot(current);
+  const previousRefs = collectRefs(previousRoot);
+  const currentRefs = collectRefs(currentRoot);
+
+  const added = new Map<SnapshotNode | undefined, SnapshotNode[]>();
+  const changed: string[] = [];
+  const removed: string[] = [];
+
+  const visit = (node: SnapshotNode) => {
+    if (node.ref) {
+      const previousNode = previousRefs.get(node.ref);
+      if (!previousNode) {
+        const parent = refAncestor(node);
+        added.set(parent, [...(added.get(parent) ?? []), node]);
+        return;
+      }
+      if (ownContent(previousNode).join('\n') !== ownContent(node).join('\n'))
+        changed.push(...ownContent(node));
+    }
+    node.children.forEach(visit);
+  };
+  if (ownContent(previousRoot).join('\n') !== ownContent(currentRoot).join('\n'))
+    changed.push(...ownContent(currentRoot));
+  currentRoot.children.forEach(visit);
+
+  for (const [ref, node] of previousRefs) {
+    if (currentRefs.has(ref))
+      continue;
+    const parent = refAncestor(node);
+    if (parent && !currentRefs.has(parent.ref!))
+      continue;
+    removed.push(node.line);
+  }
+
+  const lines: string[] = [];
+  if (added.size) {
+    lines.push('# Added');
+    for (const [parent, nodes] of added) {
+      if (parent)
+        lines.push(parent.line);
+      for (const node of nodes)
+        lines.push(...renderSubtree(node, parent ? 2 : 0));
+    }
+  }
+  if (changed.length)
+    lines.push('# Changed', ...changed);
+  if (removed.length)
+    lines.push('# Removed', ...removed);
+
+  const result = lines.join('\n');
+  if (result.length >= current.length)
+    return undefined;
+  return result;
+}
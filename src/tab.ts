@@ -15,14 +15,28 @@
  */
 
 import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
 import * as playwright from 'playwright';
 import { callOnPageNoTrace, waitForCompletion } from './tools/utils.js';
 import { logUnhandledError } from './log.js';
 import { ManualPromise } from './manualPromise.js';
 import { ModalState } from './tools/tool.js';
 import { outputFile } from './config.js';
+import { collectRefs, diffSnapshots, parseSnapshot, renderSubtree } from './snapshotDiff.js';
+import { collapseSnapshot } from './snapshotCollapse.js';
 
-import type { Context } from './context.js';
+import type { Context, DialogPolicy } from './context.js';
+import type { SnapshotNode } from './snapshotDiff.js';
+
+type SnapshotComponents = {
+  metadata: string[];
+  pageHeader: string[];
+  yamlContent: string;
+  hasModal: boolean;
+};
+
+export type EmulatedMedia = NonNullable<Parameters<playwright.Page['emulateMedia']>[0]>;
 
 type PageEx = playwright.Page & {
   _snapshotForAI: () => Promise<string>;
@@ -41,10 +55,15 @@ export class Tab extends EventEmitter<TabEventsInterface> {
   readonly page: playwright.Page;
   private _consoleMessages: ConsoleMessage[] = [];
   private _recentConsoleMessages: ConsoleMessage[] = [];
+  private _readConsoleMessagesCount = 0;
   private _requests: Map<playwright.Request, playwright.Response | null> = new Map();
   private _onPageClose: (tab: Tab) => void;
   private _modalStates: ModalState[] = [];
-  private _downloads: { download: playwright.Download, finished: boolean, outputFile: string }[] = [];
+  private _downloads: DownloadEntry[] = [];
+  private _dialogs: DialogEntry[] = [];
+  private _recentHandledDialogs: DialogEntry[] = [];
+  private _lastSnapshot: { url: string, yaml: string } | undefined;
+  private _emulatedMedia: EmulatedMedia = {};
 
   constructor(context: Context, page: playwright.Page, onPageClose: (tab: Tab) => void) {
     super();
@@ -64,13 +83,21 @@ export class Tab extends EventEmitter<TabEventsInterface> {
       });
     });
     page.on('dialog', dialog => this._dialogShown(dialog));
-    page.on('download', download => {
-      void this._downloadStarted(download);
-    });
+    page.on('download', download => this._downloadStarted(download));
     page.setDefaultNavigationTimeout(60000);
     page.setDefaultTimeout(5000);
   }
 
+  async emulateMedia(options: EmulatedMedia) {
+    await this.page.emulateMedia(options);
+    const changed = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+    this._emulatedMedia = { ...this._emulatedMedia, ...changed };
+  }
+
+  emulatedMedia(): EmulatedMedia {
+    return this._emulatedMedia;
+  }
+
   modalStates(): ModalState[] {
     return this._modalStates;
   }
@@ -96,27 +123,111 @@ export class Tab extends EventEmitter<TabEventsInterface> {
   }
 
   private _dialogShown(dialog: playwright.Dialog) {
+    const entry: DialogEntry = { dialog, url: this.page.url() };
+    this._dialogs.push(entry);
+
+    const policy = this.context.dialogPolicyFor(dialog);
+    if (policy) {
+      entry.policy = policy;
+      this._recentHandledDialogs.push(entry);
+      this.handleDialog(dialog, policy.action === 'accept', policy.promptText).catch(logUnhandledError);
+      return;
+    }
+
+    // beforeunload dialogs have no message of their own, explain what the choice means instead.
+    const description = dialog.type() === 'beforeunload'
+      ? `"beforeunload" dialog, accept to leave the page or dismiss to stay on it`
+      : `"${dialog.type()}" dialog with message "${dialog.message()}"`;
     this.setModalState({
       type: 'dialog',
-      description: `"${dialog.type()}" dialog with message "${dialog.message()}"`,
+      description,
       dialog,
     });
   }
 
-  private async _downloadStarted(download: playwright.Download) {
-    const entry = {
-      download,
-      finished: false,
-      outputFile: await outputFile(this.context.config, download.suggestedFilename())
-    };
+  async handleDialog(dialog: playwright.Dialog, accept: boolean, promptText?: string) {
+    const entry = this._dialogs.find(entry => entry.dialog === dialog);
+    if (entry) {
+      entry.result = accept ? 'accepted' : 'dismissed';
+      entry.promptText = accept && dialog.type() === 'prompt' ? promptText : undefined;
+    }
+    if (accept)
+      await dialog.accept(promptText);
+    else
+      await dialog.dismiss();
+  }
+
+  dialogs(): DialogEntry[] {
+    return this._dialogs;
+  }
+
+  clearDialogs() {
+    this._dialogs = this._dialogs.filter(entry => !entry.result);
+  }
+
+  private _downloadStarted(download: playwright.Download) {
+    const entry = { download, status: 'in progress' } as DownloadEntry;
+    entry.finished = this._saveDownload(entry).catch(logUnhandledError);
     this._downloads.push(entry);
-    await download.saveAs(entry.outputFile);
-    entry.finished = true;
+  }
+
+  private async _saveDownload(entry: DownloadEntry) {
+    const policy = this.context.config.downloads;
+    const fileName = entry.download.suggestedFilename();
+    const extension = path.extname(fileName).toLowerCase();
+    if (policy?.reject || (policy?.allowedExtensions && !policy.allowedExtensions.some(allowed => normalizeExtension(allowed) === extension))) {
+      entry.status = 'rejected';
+      entry.error = policy?.reject ? 'downloads are rejected' : `extension "${extension}" is not allowed`;
+      await entry.download.cancel();
+      return;
+    }
+
+    // Reject downloads that announce their size up front before they fill the output directory.
+    const contentLength = this._downloadContentLength(entry.download);
+    if (policy?.maxSize !== undefined && contentLength !== undefined && contentLength > policy.maxSize) {
+      entry.status = 'rejected';
+      entry.error = `size of ${contentLength} bytes exceeds the limit of ${policy.maxSize} bytes`;
+      await entry.download.cancel();
+      return;
+    }
+
+    try {
+      entry.outputFile = await outputFile(this.context.config, fileName);
+      await entry.download.saveAs(entry.outputFile);
+    } catch (e) {
+      entry.outputFile = undefined;
+      // Canceled downloads already have their status set.
+      if (entry.status === 'in progress') {
+        entry.status = 'failed';
+        entry.error = await entry.download.failure() ?? String(e);
+      }
+      return;
+    }
+
+    entry.size = (await fs.promises.stat(entry.outputFile)).size;
+    if (policy?.maxSize !== undefined && entry.size > policy.maxSize) {
+      await fs.promises.unlink(entry.outputFile);
+      entry.outputFile = undefined;
+      entry.status = 'rejected';
+      entry.error = `size of ${entry.size} bytes exceeds the limit of ${policy.maxSize} bytes`;
+      return;
+    }
+    entry.status = 'finished';
+  }
+
+  private _downloadContentLength(download: playwright.Download): number | undefined {
+    for (const [request, response] of this._requests) {
+      const contentLength = request.url() === download.url() ? response?.headers()['content-length'] : undefined;
+      if (contentLength && /^\d+$/.test(contentLength))
+        return Number(contentLength);
+    }
+    return undefined;
   }
 
   private _clearCollectedArtifacts() {
     this._consoleMessages.length = 0;
     this._recentConsoleMessages.length = 0;
+    this._readConsoleMessagesCount = 0;
     this._requests.clear();
   }
 
@@ -171,10 +282,27 @@ export class Tab extends EventEmitter<TabEventsInterface> {
     return this._consoleMessages;
   }
 
+  unreadConsoleMessages(): ConsoleMessage[] {
+    return this._consoleMessages.slice(this._readConsoleMessagesCount);
+  }
+
+  markConsoleMessagesRead() {
+    this._readConsoleMessagesCount = this._consoleMessages.length;
+  }
+
+  clearConsoleMessages() {
+    this._consoleMessages.length = 0;
+    this._readConsoleMessagesCount = 0;
+  }
+
   requests(): Map<playwright.Request, playwright.Response | null> {
     return this._requests;
   }
 
+  downloads(): DownloadEntry[] {
+    return this._downloads;
+  }
+
   private _takeRecentConsoleMarkdown(): string[] {
     if (!this._recentConsoleMessages.length)
       return [];
@@ -184,40 +312,62 @@ export class Tab extends EventEmitter<TabEventsInterface> {
     return [`### New console messages`, ...result, ''];
   }
 
+  private _takeRecentHandledDialogsMarkdown(): string[] {
+    if (!this._recentHandledDialogs.length)
+      return [];
+    const result = this._recentHandledDialogs.map(entry => `- ${renderDialog(entry)}`);
+    this._recentHandledDialogs.length = 0;
+    return [`### Handled dialogs`, ...result, ''];
+  }
+
   private _listDownloadsMarkdown(): string[] {
     if (!this._downloads.length)
       return [];
 
     const result: string[] = ['### Downloads'];
     for (const entry of this._downloads) {
-      if (entry.finished)
+      if (entry.status === 'finished')
         result.push(`- Downloaded file ${entry.download.suggestedFilename()} to ${entry.outputFile}`);
-      else
+      else if (entry.status === 'in progress')
         result.push(`- Downloading file ${entry.download.suggestedFilename()} ...`);
+      else
+        result.push(`- Download of file ${entry.download.suggestedFilename()} ${entry.status}${entry.error ? `: ${entry.error}` : ''}`);
     }
     result.push('');
     return result;
   }
 
-  async captureSnapshot(truncateParams?: { maxTokens: number; pageNum?: number }): Promise<string> {
+  async captureSnapshot(truncateParams?: { maxTokens: number; pageNum?: number }, options?: { full?: boolean }): Promise<string> {
+    const incremental = !options?.full && this.context.config.snapshotMode === 'incremental' && this._lastSnapshot?.url === this.page.url();
+    const previousYaml = this._lastSnapshot?.yaml;
+
+    // Capture once, the metadata such as new console messages is only reported once.
+    const components = await this._captureSnapshotComponents();
+    if (components.hasModal)
+      return components.metadata.join('\n');
+
+    // In incremental mode, only report what changed since the previous snapshot of the same page
+    if (incremental && previousYaml !== undefined) {
+      const result = this._renderIncrementalSnapshot(components, previousYaml);
+      if (result !== undefined)
+        return result;
+    }
+
     // Use config truncation settings if no params provided
     const maxTokens = truncateParams?.maxTokens ?? this.context.config.truncateSnapshot;
     const pageNum = truncateParams?.pageNum || 1;
 
     // If truncation is enabled (maxTokens > 0), use the truncated snapshot method
+    if (maxTokens > 0 && this.context.config.truncateStrategy === 'collapse')
+      return await this._renderCollapsedSnapshot(components, maxTokens);
     if (maxTokens > 0)
-      return await this.captureTruncatedSnapshot(maxTokens, pageNum);
+      return await this._renderTruncatedSnapshot(components, maxTokens, pageNum);
 
     // Otherwise return full snapshot
-    return await this._captureFullSnapshot();
+    return this._renderFullSnapshot(components);
   }
 
-  private async _captureSnapshotComponents(): Promise<{
-    metadata: string[];
-    pageHeader: string[];
-    yamlContent: string;
-    hasModal: boolean;
-  }> {
+  private async _captureSnapshotComponents(): Promise<SnapshotComponents> {
     if (this.modalStates().length) {
       return {
         metadata: this.modalStatesMarkdown(),
@@ -229,6 +379,7 @@ export class Tab extends EventEmitter<TabEventsInterface> {
 
     const metadata: string[] = [];
     metadata.push(...this._takeRecentConsoleMarkdown());
+    metadata.push(...this._takeRecentHandledDialogsMarkdown());
     metadata.push(...this._listDownloadsMarkdown());
 
     let yamlContent = '';
@@ -236,6 +387,7 @@ export class Tab extends EventEmitter<TabEventsInterface> {
 
     await this._raceAgainstModalStates(async () => {
       yamlContent = await (this.page as PageEx)._snapshotForAI();
+      this._lastSnapshot = { url: this.page.url(), yaml: yamlContent };
       pageHeader.push(
         `### Page state`,
         `- Page URL: ${this.page.url()}`,
@@ -246,13 +398,7 @@ export class Tab extends EventEmitter<TabEventsInterface> {
     return { metadata, pageHeader, yamlContent, hasModal: false };
   }
 
-  private async _captureFullSnapshot(): Promise<string> {
-    const components = await this._captureSnapshotComponents();
-    
-    if (components.hasModal) {
-      return components.metadata.join('\n');
-    }
-
+  private _renderFullSnapshot(components: SnapshotComponents): string {
     const result: string[] = [];
     result.push(...components.metadata);
     result.push(...components.pageHeader);
@@ -264,21 +410,71 @@ export class Tab extends EventEmitter<TabEventsInterface> {
     return result.join('\n');
   }
 
+  private _renderIncrementalSnapshot(components: SnapshotComponents, previousYaml: string): string | undefined {
+    const diff = diffSnapshots(previousYaml, components.yamlContent);
+    if (diff === undefined)
+      return undefined;
+
+    const result: string[] = [];
+    result.push(...components.metadata);
+    result.push(...components.pageHeader);
+    if (!diff) {
+      result.push(`- Page Snapshot: no changes since the previous snapshot`);
+      return result.join('\n');
+    }
+    result.push(`- Page Snapshot (changes since the previous snapshot, use browser_snapshot for the full snapshot):`);
+    result.push('```yaml');
+    result.push(diff);
+    result.push('```');
+    return result.join('\n');
+  }
+
+  private async _renderCollapsedSnapshot(components: SnapshotComponents, maxTokens: number): Promise<string> {
+    const result: string[] = [];
+    result.push(...components.metadata);
+    result.push(...components.pageHeader);
+    result.push(`- Page Snapshot:`);
+    result.push('```yaml');
+    result.push(collapseSnapshot(components.yamlContent, maxTokens, await tokenCounter()));
+    result.push('```');
+    return result.join('\n');
+  }
+
+  async snapshotSubtree(ref: string): Promise<string> {
+    let snapshot = '';
+    const modalState = await this._raceAgainstModalStates(async () => {
+      snapshot = await (this.page as PageEx)._snapshotForAI();
+    });
+    if (modalState)
+      throw new Error(`The snapshot could not be captured because of the modal state.\n` + this.modalStatesMarkdown().join('\n'));
+    const node = collectRefs(parseSnapshot(snapshot)).get(ref);
+    if (!node)
+      throw new Error(`Ref ${ref} not found in the current page snapshot. Try capturing new snapshot.`);
+
+    // Children of the expanded element are never collapsed, only their descendants are.
+    let children = node.children.map(child => renderSubtree(child).join('\n')).join('\n');
+    const maxTokens = this.context.config.truncateSnapshot;
+    if (children && maxTokens > 0)
+      children = collapseSnapshot(children, maxTokens, await tokenCounter());
+    return [node.line, ...(children ? children.split('\n').map(line => '  ' + line) : [])].join('\n');
+  }
+
   async captureTruncatedSnapshot(maxTokens: number, pageNum: number = 1): Promise<string> {
-    const tiktoken = await import('js-tiktoken');
-    const encoder = tiktoken.getEncoding('cl100k_base'); // Claude uses cl100k_base encoding
-    
     const components = await this._captureSnapshotComponents();
-    
+
     // If modal state, return as-is
-    if (components.hasModal) {
+    if (components.hasModal)
       return components.metadata.join('\n');
-    }
+    return await this._renderTruncatedSnapshot(components, maxTokens, pageNum);
+  }
+
+  private async _renderTruncatedSnapshot(components: SnapshotComponents, maxTokens: number, pageNum: number): Promise<string> {
+    const tiktoken = await import('js-tiktoken');
+    const encoder = tiktoken.getEncoding('cl100k_base'); // Claude uses cl100k_base encoding
 
     // If no YAML content, return full snapshot
-    if (!components.yamlContent) {
-      return await this._captureFullSnapshot();
-    }
+    if (!components.yamlContent)
+      return this._renderFullSnapshot(components);
 
     // Split the YAML content into lines for truncation
     const lines = components.yamlContent.split('\n');
@@ -371,7 +567,7 @@ export class Tab extends EventEmitter<TabEventsInterface> {
 
     if (!pageInfo) {
       // Return the full snapshot if no pages (empty YAML)
-      return await this._captureFullSnapshot();
+      return this._renderFullSnapshot(components);
     }
 
     // Extract lines for current page
@@ -470,6 +666,41 @@ export class Tab extends EventEmitter<TabEventsInterface> {
     });
   }
 
+  /**
+   * Maps each element to the ref of the innermost snapshot element that contains it,
+   * undefined for elements outside of any ref, such as the document itself.
+   */
+  async refsForElements(elements: playwright.JSHandle<Element[]>): Promise<(string | undefined)[]> {
+    const snapshot = await (this.page as PageEx)._snapshotForAI();
+    const count = await elements.evaluate(elements => elements.length);
+    const result: (string | undefined)[] = new Array(count);
+
+    // The ref to element map only lives in Playwright's isolated world, so descend the snapshot tree
+    // level by level and only look into refs that contain one of the elements.
+    let level = refChildren(parseSnapshot(snapshot));
+    while (level.length) {
+      const contained = await Promise.all(level.map(node => {
+        // Elements of other frames live in a different execution context and never match.
+        return this.page.locator(`aria-ref=${node.ref}`).evaluate((el, elements) => {
+          return elements.map(element => el === element || el.contains(element));
+        }, elements, { timeout: 1000 }).catch(() => [] as boolean[]);
+      }));
+      const nextLevel: SnapshotNode[] = [];
+      level.forEach((node, index) => {
+        if (!contained[index].some(Boolean))
+          return;
+        // Nodes of the next level are descendants of this one, so they override it.
+        contained[index].forEach((match, elementIndex) => {
+          if (match)
+            result[elementIndex] = node.ref;
+        });
+        nextLevel.push(...refChildren(node));
+      });
+      level = nextLevel;
+    }
+    return result;
+  }
+
   async waitForTimeout(time: number) {
     if (this._javaScriptBlocked()) {
       await new Promise(f => setTimeout(f, time));
@@ -482,6 +713,34 @@ export class Tab extends EventEmitter<TabEventsInterface> {
   }
 }
 
+export type DownloadEntry = {
+  download: playwright.Download;
+  status: 'in progress' | 'finished' | 'failed' | 'canceled' | 'rejected';
+  // Set while the download is saved to the output directory and once it has finished.
+  outputFile?: string;
+  size?: number;
+  error?: string;
+  finished: Promise<void>;
+};
+
+export type DialogEntry = {
+  dialog: playwright.Dialog;
+  url: string;
+  result?: 'accepted' | 'dismissed';
+  promptText?: string;
+  // Set when the dialog was handled automatically.
+  policy?: DialogPolicy;
+};
+
+export function renderDialog(entry: DialogEntry): string {
+  const dialog = entry.dialog;
+  const message = dialog.message() ? ` with message "${dialog.message()}"` : '';
+  if (!entry.result)
+    return `"${dialog.type()}" dialog${message} is open`;
+  const promptText = entry.promptText !== undefined ? ` with "${entry.promptText}"` : '';
+  return `"${dialog.type()}" dialog${message} ${entry.result}${promptText}${entry.policy ? ' by policy' : ''}`;
+}
+
 export type ConsoleMessage = {
   type: ReturnType<playwright.ConsoleMessage['type']> | undefined;
   text: string;
@@ -511,8 +770,23 @@ function pageErrorToConsoleMessage(errorOrValue: Error | any): ConsoleMessage {
   };
 }
 
+async function tokenCounter(): Promise<(text: string) => number> {
+  const tiktoken = await import('js-tiktoken');
+  const encoder = tiktoken.getEncoding('cl100k_base');
+  return text => encoder.encode(text).length;
+}
+
 function trim(text: string, maxLength: number) {
   if (text.length <= maxLength)
     return text;
   return text.slice(0, maxLength) + '...';
 }
+
+function normalizeExtension(extension: string) {
+  extension = extension.trim().toLowerCase();
+  return extension.startsWith('.') ? extension : '.' + extension;
+}
+
+function refChildren(node: SnapshotNode): SnapshotNode[] {
+  return node.children.flatMap(child => child.ref ? [child] : refChildren(child));
+}
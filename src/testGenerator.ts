@@ -0,0 +1,117 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as javascript from './javascript.js';
+
+import type { BrowserContextOptions } from 'playwright';
+import type { FullConfig } from './config.js';
+import type { Response } from './response.js';
+
+type TestStep = {
+  toolName: string;
+  code: string;
+  standalone: boolean;
+};
+
+// Context options that map to `test.use()` fixtures, others are specific to the MCP session.
+const useOptionNames: (keyof BrowserContextOptions)[] = [
+  'colorScheme',
+  'deviceScaleFactor',
+  'geolocation',
+  'hasTouch',
+  'ignoreHTTPSErrors',
+  'isMobile',
+  'locale',
+  'permissions',
+  'storageState',
+  'timezoneId',
+  'userAgent',
+  'viewport',
+];
+
+export class TestGenerator {
+  private _config: FullConfig;
+  private _steps: TestStep[] = [];
+
+  constructor(config: FullConfig) {
+    this._config = config;
+  }
+
+  addStep(response: Response) {
+    const code = response.code();
+    if (code)
+      this._steps.push({ toolName: response.toolName, code, standalone: response.codeIsStandalone() });
+  }
+
+  steps(): TestStep[] {
+    return this._steps;
+  }
+
+  /**
+   * Assembles the code of the recorded tool calls into a `@playwright/test` spec.
+   */
+  generate(testName: string): string {
+    const lines = [`import { test, expect } from '@playwright/test';`, ''];
+
+    const useOptions = this._useOptions();
+    if (Object.keys(useOptions).length)
+      lines.push(`test.use(${javascript.formatObject(useOptions)});`, '');
+
+    const standaloneCode = scopeStepsCode(this._steps.filter(step => step.standalone).map(step => step.code));
+    const body = this._steps.map(step => {
+      if (!step.standalone)
+        return [`// Skipped ${step.toolName}, its code relies on objects created outside of this test:`, ...step.code.split('\n').map(line => `// ${line}`)].join('\n');
+      return standaloneCode.shift()!;
+    }).join('\n');
+    const fixtures = /\bbrowser\./.test(body) ? 'page, browser' : 'page';
+    lines.push(`test(${javascript.quote(testName)}, async ({ ${fixtures} }) => {`);
+    for (const line of body.split('\n'))
+      lines.push(line ? `  ${line}` : '');
+    lines.push('});', '');
+    return lines.join('\n');
+  }
+
+  private _useOptions(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const contextOptions = this._config.browser.contextOptions ?? {};
+    for (const name of useOptionNames) {
+      if (contextOptions[name] !== undefined && contextOptions[name] !== null)
+        result[name] = contextOptions[name];
+    }
+    if (this._config.browser.browserName !== 'chromium')
+      result.browserName = this._config.browser.browserName;
+    if (this._config.browser.launchOptions?.channel)
+      result.channel = this._config.browser.launchOptions.channel;
+    return result;
+  }
+}
+
+/**
+ * Wraps the code of steps that declare a variable an earlier step already declared in a block, so that
+ * the steps compile one after another while later steps can still use the variables of earlier ones.
+ */
+export function scopeStepsCode(codes: string[]): string[] {
+  const declared = new Set<string>();
+  return codes.map(code => {
+    const names = [...code.matchAll(/^(?:const|let) (\w+)/gm)].map(match => match[1]);
+    if (!names.some(name => declared.has(name))) {
+      names.forEach(name => declared.add(name));
+      return code;
+    }
+    return ['{', ...code.split('\n').map(line => line ? `  ${line}` : ''), '}'].join('\n');
+  });
+}
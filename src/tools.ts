@@ -14,19 +14,34 @@
  * limitations under the License.
  */
 
+import accessibility from './tools/accessibility.js';
+import clock from './tools/clock.js';
 import common from './tools/common.js';
 import console from './tools/console.js';
+import contexts from './tools/contexts.js';
 import dialogs from './tools/dialogs.js';
+import downloads from './tools/downloads.js';
+import emulation from './tools/emulation.js';
 import evaluate from './tools/evaluate.js';
+import expectTools from './tools/expect.js';
 import files from './tools/files.js';
+import form from './tools/form.js';
+import frames from './tools/frames.js';
+import generateTest from './tools/generateTest.js';
+import har from './tools/har.js';
 import html from './tools/html.js';
 import install from './tools/install.js';
 import keyboard from './tools/keyboard.js';
 import navigate from './tools/navigate.js';
 import network from './tools/network.js';
 import pdf from './tools/pdf.js';
+import performance from './tools/performance.js';
+import route from './tools/route.js';
+import runSteps from './tools/runSteps.js';
 import snapshot from './tools/snapshot.js';
+import storage from './tools/storage.js';
 import tabs from './tools/tabs.js';
+import throttling from './tools/throttling.js';
 import screenshot from './tools/screenshot.js';
 import video from './tools/video.js';
 import wait from './tools/wait.js';
@@ -36,11 +51,21 @@ import type { Tool } from './tools/tool.js';
 import type { FullConfig } from './config.js';
 
 export const allTools: Tool<any>[] = [
+  ...accessibility,
+  ...clock,
   ...common,
   ...console,
+  ...contexts,
   ...dialogs,
+  ...downloads,
+  ...emulation,
   ...evaluate,
+  ...expectTools,
   ...files,
+  ...form,
+  ...frames,
+  ...generateTest,
+  ...har,
   ...html,
   ...install,
   ...keyboard,
@@ -48,9 +73,14 @@ export const allTools: Tool<any>[] = [
   ...network,
   ...mouse,
   ...pdf,
+  ...performance,
+  ...route,
+  ...runSteps,
   ...screenshot,
   ...snapshot,
+  ...storage,
   ...tabs,
+  ...throttling,
   ...video,
   ...wait,
 ];
@@ -0,0 +1,264 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+import { z } from 'zod';
+import { defineTabTool } from './tool.js';
+import { outputFile } from '../config.js';
+
+type Impact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+type AuditFinding = {
+  rule: string;
+  impact: Impact;
+  description: string;
+  html: string;
+};
+
+type AuditViolation = AuditFinding & {
+  ref: string | undefined;
+};
+
+const impacts: Impact[] = ['critical', 'serious', 'moderate', 'minor'];
+
+const accessibilityAudit = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_accessibility_audit',
+    title: 'Audit accessibility',
+    description: 'Check the current page or an element subtree for common accessibility problems, such as missing labels and alternative text, low color contrast and skipped heading levels. Violations are grouped by severity and point to the offending element refs.',
+    inputSchema: z.object({
+      element: z.string().optional().describe('Human-readable element description of the subtree to audit. Audits the whole page if not specified.'),
+      ref: z.string().optional().describe('Exact target element reference of the subtree to audit from the page snapshot'),
+      filename: z.string().optional().describe('File name to save the JSON report to in the output directory. The report is not saved if not specified.'),
+    }).refine(data => {
+      return !!data.element === !!data.ref;
+    }, {
+      message: 'Both element and ref must be provided or neither.',
+      path: ['ref', 'element']
+    }),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Find accessibility problems and jump to the offending elements',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const root = params.ref && params.element ? await tab.refLocator({ ref: params.ref, element: params.element }) : tab.page.locator(':root');
+    const result = await root.evaluateHandle(auditElement, !params.ref);
+    const findings = await result.evaluate(result => result.findings);
+    const refs = findings.length ? await tab.refsForElements(await result.evaluateHandle(result => result.elements)) : [];
+    await result.dispose();
+    const violations: AuditViolation[] = findings.map((finding, index) => ({ ...finding, ref: refs[index] }));
+
+    if (params.filename) {
+      const fileName = await outputFile(tab.context.config, params.filename);
+      const report = {
+        url: tab.page.url(),
+        title: await tab.title(),
+        scope: params.ref ?? null,
+        timestamp: new Date().toISOString(),
+        violations,
+      };
+      await fs.promises.writeFile(fileName, JSON.stringify(report, null, 2));
+      response.addResult(`Saved report to ${fileName}`);
+    }
+
+    if (!violations.length) {
+      response.addResult('No accessibility violations found');
+      return;
+    }
+
+    response.addResult(`Found ${violations.length} accessibility violation(s)`);
+    for (const impact of impacts) {
+      const group = violations.filter(violation => violation.impact === impact);
+      if (!group.length)
+        continue;
+      response.addResult(`\n#### ${impact[0].toUpperCase() + impact.slice(1)} (${group.length})`);
+      for (const violation of group)
+        response.addResult(`- [${violation.rule}] ${violation.description}: ${violation.ref ? `ref=${violation.ref} ` : ''}\`${violation.html}\``);
+    }
+  },
+});
+
+/**
+ * Runs in the page, must be self-contained. Returns the findings along with the offending
+ * elements, so that they can be mapped to snapshot refs.
+ */
+function auditElement(root: Element, wholeDocument: boolean): { findings: AuditFinding[], elements: Element[] } {
+  const findings: AuditFinding[] = [];
+  const elements: Element[] = [];
+  const report = (element: Element, rule: string, impact: Impact, description: string) => {
+    const html = element.outerHTML;
+    const startTag = html.slice(0, html.indexOf('>') + 1);
+    findings.push({ rule, impact, description, html: startTag.length > 120 ? startTag.slice(0, 117) + '...' : startTag });
+    elements.push(element);
+  };
+
+  const isHidden = (element: Element): boolean => {
+    if (element.closest('[aria-hidden="true"]'))
+      return true;
+    const style = getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden' || !element.getClientRects().length;
+  };
+  const textOf = (element: Element | null): string => (element?.textContent ?? '').replace(/\s+/g, ' ').trim();
+  const accessibleName = (element: Element): string => {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map(id => textOf(document.getElementById(id))).join(' ').trim();
+      if (text)
+        return text;
+    }
+    const label = element.getAttribute('aria-label')?.trim();
+    if (label)
+      return label;
+    if (element instanceof HTMLImageElement || (element instanceof HTMLInputElement && element.type === 'image'))
+      return element.getAttribute('alt')?.trim() || element.getAttribute('title')?.trim() || '';
+    if (element instanceof HTMLInputElement || element instanceof HTMLSelectElement || element instanceof HTMLTextAreaElement) {
+      if (element instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(element.type))
+        return element.value.trim() || (element.type === 'button' ? '' : element.type);
+      const labels = [...(element.labels ?? [])].map(label => textOf(label)).join(' ').trim();
+      return labels || element.getAttribute('title')?.trim() || '';
+    }
+    const text = [...element.querySelectorAll('img[alt], [aria-label]')].map(child => accessibleName(child)).join(' ');
+    return (textOf(element) + ' ' + text).trim() || element.getAttribute('title')?.trim() || '';
+  };
+  const query = (selector: string): Element[] => {
+    const result = [...root.querySelectorAll(selector)];
+    if (root.matches(selector))
+      result.unshift(root);
+    return result.filter(element => !isHidden(element));
+  };
+
+  if (wholeDocument) {
+    if (!document.title.trim())
+      report(document.documentElement, 'document-title', 'serious', 'Document must have a non-empty <title>');
+    if (!document.documentElement.getAttribute('lang')?.trim())
+      report(document.documentElement, 'html-has-lang', 'serious', 'The <html> element must have a lang attribute');
+  }
+
+  for (const element of query('img, [role="img"], input[type="image"]')) {
+    const role = element.getAttribute('role');
+    if ((element instanceof HTMLImageElement && element.getAttribute('alt') === '') || role === 'presentation' || role === 'none')
+      continue;
+    if (!accessibleName(element))
+      report(element, 'image-alt', 'critical', 'Images must have alternative text');
+  }
+
+  for (const element of query('button, [role="button"], input[type="button"], input[type="submit"], input[type="reset"]')) {
+    if (!accessibleName(element))
+      report(element, 'button-name', 'critical', 'Buttons must have discernible text');
+  }
+
+  for (const element of query('input, select, textarea, [role="textbox"], [role="combobox"], [role="checkbox"], [role="radio"]')) {
+    if (element instanceof HTMLInputElement && ['hidden', 'button', 'submit', 'reset', 'image'].includes(element.type))
+      continue;
+    if (!accessibleName(element))
+      report(element, 'label', 'critical', 'Form elements must have labels');
+  }
+
+  for (const element of query('a[href], [role="link"]')) {
+    if (!accessibleName(element))
+      report(element, 'link-name', 'serious', 'Links must have discernible text');
+  }
+
+  for (const element of query('iframe, frame')) {
+    if (!element.getAttribute('title')?.trim() && !accessibleName(element))
+      report(element, 'frame-title', 'serious', 'Frames must have a title attribute');
+  }
+
+  type Color = [number, number, number, number];
+  const parseColor = (value: string): Color | undefined => {
+    const match = value.match(/rgba?\(([^)]+)\)/);
+    if (!match)
+      return undefined;
+    const [r, g, b, a] = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    return [r, g, b, a ?? 1];
+  };
+  const blend = (top: Color, bottom: Color): Color => {
+    const alpha = top[3];
+    return [0, 1, 2].map(i => top[i] * alpha + bottom[i] * (1 - alpha)).concat(1) as Color;
+  };
+  const backgroundOf = (element: Element): Color | undefined => {
+    const layers: Color[] = [];
+    for (let current: Element | null = element; current; current = current.parentElement) {
+      const style = getComputedStyle(current);
+      // Contrast cannot be computed against images and gradients.
+      if (style.backgroundImage !== 'none')
+        return undefined;
+      const color = parseColor(style.backgroundColor);
+      if (color && color[3] > 0)
+        layers.push(color);
+      if (color && color[3] === 1)
+        break;
+    }
+    return layers.reduceRight((bottom, top) => blend(top, bottom), [255, 255, 255, 1] as Color);
+  };
+  const luminance = (color: Color): number => {
+    const [r, g, b] = color.slice(0, 3).map(channel => {
+      const value = channel / 255;
+      return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const textElements = query('*').filter(element => [...element.childNodes].some(node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()));
+  for (const element of textElements) {
+    if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TITLE', 'OPTION'].includes(element.tagName) || (element as HTMLInputElement).disabled)
+      continue;
+    const style = getComputedStyle(element);
+    const background = backgroundOf(element);
+    const foreground = parseColor(style.color);
+    if (!background || !foreground)
+      continue;
+    const text = blend(foreground, background);
+    const [lighter, darker] = [luminance(text), luminance(background)].sort((a, b) => b - a);
+    const ratio = (lighter + 0.05) / (darker + 0.05);
+    const fontSize = parseFloat(style.fontSize);
+    const isLarge = fontSize >= 24 || (fontSize >= 18.66 && Number(style.fontWeight) >= 700);
+    const required = isLarge ? 3 : 4.5;
+    if (ratio < required)
+      report(element, 'color-contrast', 'serious', `Text must have a contrast ratio of at least ${required}:1, found ${ratio.toFixed(2)}:1`);
+  }
+
+  let previousLevel = 0;
+  for (const element of query('h1, h2, h3, h4, h5, h6, [role="heading"]')) {
+    const level = Number(element.getAttribute('aria-level') ?? element.tagName.match(/^H(\d)$/)?.[1] ?? 2);
+    if (previousLevel && level > previousLevel + 1)
+      report(element, 'heading-order', 'moderate', `Heading levels should only increase by one, found h${level} after h${previousLevel}`);
+    previousLevel = level;
+    if (!accessibleName(element))
+      report(element, 'empty-heading', 'minor', 'Headings must not be empty');
+  }
+
+  const ids = new Map<string, Element[]>();
+  for (const element of [root, ...root.querySelectorAll('[id]')]) {
+    if (element.id)
+      ids.set(element.id, [...(ids.get(element.id) ?? []), element]);
+  }
+  for (const [id, sameId] of ids) {
+    if (sameId.length > 1)
+      report(sameId[1], 'duplicate-id', 'minor', `id "${id}" is used by ${sameId.length} elements`);
+  }
+
+  return { findings, elements };
+}
+
+export default [
+  accessibilityAudit,
+];
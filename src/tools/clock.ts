@@ -0,0 +1,145 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { z } from 'zod';
+import { defineTabTool } from './tool.js';
+import * as javascript from '../javascript.js';
+
+const timeSchema = z.union([z.number(), z.string()]).describe('Time as a date string, for example "2024-02-02T10:00:00", or milliseconds since the epoch');
+const ticksSchema = z.union([z.number(), z.string()]).describe('Time to advance by, either milliseconds or a "mm:ss" / "hh:mm:ss" string');
+
+const clockInstall = defineTabTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_clock_install',
+    title: 'Install fake clock',
+    description: 'Replace Date, timers and animation frames of the browser context with a fake clock that can be controlled with the other clock tools. The clock keeps running in real time until paused.',
+    inputSchema: z.object({
+      time: timeSchema.optional().describe('Time to start the clock at, defaults to the current time'),
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Test countdowns, timeouts and relative dates deterministically',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const options = params.time !== undefined ? { time: params.time } : undefined;
+    response.addCode(`await page.clock.install(${options ? javascript.formatObject(options) : ''});`);
+    await tab.page.clock.install(options);
+    response.addResult(`Installed fake clock${params.time !== undefined ? ` at ${formatTime(params.time)}` : ''}`);
+  },
+});
+
+const clockSetTime = defineTabTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_clock_set_time',
+    title: 'Set clock time',
+    description: 'Set the current time of the page. A fixed time keeps Date.now() constant while timers keep running, otherwise the clock jumps to the given time and keeps ticking. Timers are not fired.',
+    inputSchema: z.object({
+      time: timeSchema,
+      fixed: z.boolean().optional().describe('Whether Date.now() should always return this time. Defaults to false.'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (tab, params, response) => {
+    const method = params.fixed ? 'setFixedTime' : 'setSystemTime';
+    response.addCode(`await page.clock.${method}(${javascript.formatObject(params.time)});`);
+    await tab.page.clock[method](params.time);
+    response.setIncludeSnapshot();
+    response.addResult(`Set ${params.fixed ? 'fixed ' : ''}time to ${formatTime(params.time)}`);
+  },
+});
+
+const clockFastForward = defineTabTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_clock_fast_forward',
+    title: 'Fast-forward clock',
+    description: 'Advance the fake clock installed with browser_clock_install. By default the clock jumps ahead and fires due timers at most once, like a laptop waking up from sleep. With runTimers, every timer in the period fires in order.',
+    inputSchema: z.object({
+      ticks: ticksSchema,
+      runTimers: z.boolean().optional().describe('Whether to fire every timer in the period, including each run of repeating intervals. Defaults to false.'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (tab, params, response) => {
+    const method = params.runTimers ? 'runFor' : 'fastForward';
+    response.addCode(`await page.clock.${method}(${javascript.formatObject(params.ticks)});`);
+    await tab.page.clock[method](params.ticks);
+    response.setIncludeSnapshot();
+    response.addResult(`Advanced clock by ${typeof params.ticks === 'number' ? `${params.ticks} ms` : params.ticks}`);
+  },
+});
+
+const clockPause = defineTabTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_clock_pause',
+    title: 'Pause clock',
+    description: 'Fast-forward the fake clock to the given time and pause it there, no timers are fired until the clock is advanced or resumed',
+    inputSchema: z.object({
+      time: timeSchema,
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (tab, params, response) => {
+    response.addCode(`await page.clock.pauseAt(${javascript.formatObject(params.time)});`);
+    await tab.page.clock.pauseAt(params.time);
+    response.setIncludeSnapshot();
+    response.addResult(`Paused clock at ${formatTime(params.time)}`);
+  },
+});
+
+const clockResume = defineTabTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_clock_resume',
+    title: 'Resume clock',
+    description: 'Resume the fake clock paused with browser_clock_pause, time flows in real time again',
+    inputSchema: z.object({}),
+    type: 'destructive',
+  },
+
+  handle: async (tab, params, response) => {
+    response.addCode(`await page.clock.resume();`);
+    await tab.page.clock.resume();
+    response.addResult('Resumed clock');
+  },
+});
+
+function formatTime(time: number | string): string {
+  return typeof time === 'number' ? new Date(time).toISOString() : time;
+}
+
+export default [
+  clockInstall,
+  clockSetTime,
+  clockFastForward,
+  clockPause,
+  clockResume,
+];
@@ -17,20 +17,72 @@
 import { z } from 'zod';
 import { defineTabTool } from './tool.js';
 
+import type { ConsoleMessage } from '../tab.js';
+
+const levels = ['error', 'warning', 'info', 'debug'] as const;
+
 const console = defineTabTool({
   capability: 'core',
   schema: {
     name: 'browser_console_messages',
     title: 'Get console messages',
-    description: 'Returns all console messages',
-    inputSchema: z.object({}),
+    description: 'Returns console messages and uncaught page errors with their source location and stack trace, optionally filtered by level and text',
+    inputSchema: z.object({
+      level: z.enum(levels).optional().describe('Minimum level of the messages to return, "error" returns errors and uncaught exceptions only. Returns all levels if not specified.'),
+      filter: z.string().optional().describe('Only return messages containing this text, or matching this regular expression when regex is true'),
+      regex: z.boolean().optional().describe('Whether filter is a regular expression, defaults to false'),
+      sinceLastCall: z.boolean().optional().describe('Only return messages logged since the previous call of this tool, defaults to false'),
+      max: z.number().int().min(1).optional().describe('Maximum number of messages to return, the most recent ones are kept'),
+      clear: z.boolean().optional().describe('Whether to clear the collected messages after returning them, defaults to false'),
+    }),
     type: 'readOnly',
   },
   handle: async (tab, params, response) => {
-    tab.consoleMessages().map(message => response.addResult(message.toString()));
+    // Compile the pattern first, an invalid one must not mark messages read or clear them.
+    const pattern = params.filter && params.regex ? new RegExp(params.filter) : undefined;
+
+    // Copy the messages, clearing below truncates the collected ones.
+    let messages = params.sinceLastCall ? tab.unreadConsoleMessages() : [...tab.consoleMessages()];
+    tab.markConsoleMessagesRead();
+    if (params.clear)
+      tab.clearConsoleMessages();
+
+    if (params.level) {
+      const maxSeverity = levels.indexOf(params.level);
+      messages = messages.filter(message => messageSeverity(message) <= maxSeverity);
+    }
+    if (params.filter)
+      messages = messages.filter(message => pattern ? pattern.test(message.toString()) : message.toString().includes(params.filter!));
+
+    if (!messages.length) {
+      response.addResult('No console messages');
+      return;
+    }
+    if (params.max && messages.length > params.max) {
+      response.addResult(`... ${messages.length - params.max} earlier message(s) omitted`);
+      messages = messages.slice(-params.max);
+    }
+    messages.map(message => response.addResult(message.toString()));
   },
 });
 
+function messageSeverity(message: ConsoleMessage): number {
+  // Uncaught page errors have no console type.
+  switch (message.type) {
+    case undefined:
+    case 'error':
+    case 'assert':
+      return 0;
+    case 'warning':
+      return 1;
+    case 'debug':
+    case 'trace':
+      return 3;
+    default:
+      return 2;
+  }
+}
+
 export default [
   console,
 ];
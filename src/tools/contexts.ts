@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { z } from 'zod';
+import * as playwright from 'playwright';
+import { defineTool } from './tool.js';
+import * as javascript from '../javascript.js';
+import { pickDefined } from '../config.js';
+
+const newContext = defineTool({
+  capability: 'core-tabs',
+
+  schema: {
+    name: 'browser_context_new',
+    title: 'Create a browser context',
+    description: 'Create a named, isolated browser context with its own cookies, storage and tabs, and make it current. Use it to act as several users in one session.',
+    inputSchema: z.object({
+      name: z.string().describe('Unique name of the browser context, for example "admin"'),
+      device: z.string().optional().describe('Device to emulate, for example "iPhone 15"'),
+      viewport: z.object({
+        width: z.number().describe('Viewport width in pixels'),
+        height: z.number().describe('Viewport height in pixels'),
+      }).optional().describe('Viewport size, overrides the device viewport'),
+      storageState: z.string().optional().describe('The absolute path to a storage state file to initialize cookies and localStorage from'),
+      userAgent: z.string().optional().describe('User agent to use in this browser context'),
+      locale: z.string().optional().describe('Locale to use in this browser context, for example "de-DE"'),
+    }),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Test multi-user flows with isolated browser contexts in one session',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    const device = params.device ? playwright.devices[params.device] : undefined;
+    if (params.device && !device)
+      throw new Error(`Device "${params.device}" not found`);
+
+    const options = pickDefined({
+      viewport: params.viewport,
+      storageState: params.storageState,
+      userAgent: params.userAgent,
+      locale: params.locale,
+    });
+    await context.newBrowserContext(params.name, { ...device, ...options });
+
+    const deviceCode = params.device ? `devices[${javascript.quote(params.device)}]` : '';
+    const formattedOptions = javascript.formatObject(options);
+    let newContextArgs = formattedOptions;
+    if (deviceCode)
+      newContextArgs = Object.keys(options).length ? `{ ...${deviceCode}, ...${formattedOptions} }` : deviceCode;
+    response.addCode(`// Create browser context "${params.name}"`);
+    response.addCode(`const context = await browser.newContext(${newContextArgs});`);
+    response.addResult(`Created browser context "${params.name}"`);
+    response.setIncludeTabs();
+  },
+});
+
+const listContexts = defineTool({
+  capability: 'core-tabs',
+
+  schema: {
+    name: 'browser_context_list',
+    title: 'List browser contexts',
+    description: 'List browser contexts along with their tabs',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const current = context.currentBrowserContextName();
+    for (const name of context.browserContextNames())
+      response.addResult(`- ${name}${name === current ? ' (current)' : ''}`);
+    response.setIncludeTabs();
+  },
+});
+
+const selectContext = defineTool({
+  capability: 'core-tabs',
+
+  schema: {
+    name: 'browser_context_select',
+    title: 'Select a browser context',
+    description: 'Make a browser context current. Tab and page tools act on the current browser context.',
+    inputSchema: z.object({
+      name: z.string().describe('The name of the browser context to select, "default" for the initial one'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    context.selectBrowserContext(params.name);
+    if (context.currentTab())
+      response.setIncludeSnapshot();
+    else
+      response.setIncludeTabs();
+  },
+});
+
+const closeContext = defineTool({
+  capability: 'core-tabs',
+
+  schema: {
+    name: 'browser_context_close',
+    title: 'Close a browser context',
+    description: 'Close a browser context along with its tabs. Closing the "default" browser context only closes its tabs.',
+    inputSchema: z.object({
+      name: z.string().describe('The name of the browser context to close'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    await context.closeNamedBrowserContext(params.name);
+    response.addCode(`await context.close();`);
+    response.setCodeNotStandalone();
+    response.addResult(`Closed browser context "${params.name}"`);
+    response.setIncludeTabs();
+  },
+});
+
+export default [
+  newContext,
+  listContexts,
+  selectContext,
+  closeContext,
+];
@@ -15,7 +15,11 @@
  */
 
 import { z } from 'zod';
-import { defineTabTool } from './tool.js';
+import { defineTabTool, defineTool } from './tool.js';
+import * as javascript from '../javascript.js';
+import { renderDialog } from '../tab.js';
+
+import type { DialogPolicy } from '../context.js';
 
 const handleDialog = defineTabTool({
   capability: 'core',
@@ -23,7 +27,7 @@ const handleDialog = defineTabTool({
   schema: {
     name: 'browser_handle_dialog',
     title: 'Handle a dialog',
-    description: 'Handle a dialog',
+    description: 'Handle a dialog. Accepting a "beforeunload" dialog leaves the page, dismissing it stays on the page.',
     inputSchema: z.object({
       accept: z.boolean().describe('Whether to accept the dialog.'),
       promptText: z.string().optional().describe('The text of the prompt in case of a prompt dialog.'),
@@ -40,16 +44,101 @@ const handleDialog = defineTabTool({
 
     tab.clearModalState(dialogState);
     await tab.waitForCompletion(async () => {
-      if (params.accept)
-        await dialogState.dialog.accept(params.promptText);
-      else
-        await dialogState.dialog.dismiss();
+      await tab.handleDialog(dialogState.dialog, params.accept, params.promptText);
     });
   },
 
   clearsModalState: 'dialog',
 });
 
+const setDialogPolicy = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_dialog_policy_set',
+    title: 'Handle dialogs automatically',
+    description: 'Accept or dismiss matching dialogs automatically from now on, so that browser_handle_dialog does not need to be called for each of them. Policies set later take precedence.',
+    inputSchema: z.object({
+      action: z.enum(['accept', 'dismiss']).describe('Whether to accept or dismiss the dialogs. Accepting a "beforeunload" dialog leaves the page.'),
+      promptText: z.string().optional().describe('Text to enter into accepted prompt dialogs'),
+      type: z.enum(['alert', 'beforeunload', 'confirm', 'prompt']).optional().describe('Only handle dialogs of this type. Handles all types if not specified.'),
+      message: z.string().optional().describe('Regular expression the dialog message must match. Handles all messages if not specified.'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    const policy: DialogPolicy = { ...params };
+    context.addDialogPolicy(policy);
+
+    const conditions: string[] = [];
+    if (policy.type)
+      conditions.push(`dialog.type() === ${javascript.quote(policy.type)}`);
+    if (policy.message)
+      conditions.push(`new RegExp(${javascript.quote(policy.message)}).test(dialog.message())`);
+    const action = policy.action === 'accept' ? `dialog.accept(${policy.promptText !== undefined ? javascript.quote(policy.promptText) : ''})` : 'dialog.dismiss()';
+    response.addCode(`page.on('dialog', dialog => ${[...conditions, action].join(' && ')});`);
+
+    response.addResult(`Dialog policies:`);
+    for (const policy of context.dialogPolicies())
+      response.addResult(`- ${renderPolicy(policy)}`);
+  },
+});
+
+const clearDialogPolicies = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_dialog_policy_clear',
+    title: 'Stop handling dialogs automatically',
+    description: 'Remove all dialog policies, including the configured ones. Dialogs need to be handled with browser_handle_dialog afterwards.',
+    inputSchema: z.object({}),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    const removed = context.clearDialogPolicies();
+    response.addCode(`page.removeAllListeners('dialog');`);
+    response.addResult(removed.length ? `Removed ${removed.length} dialog policy(s)` : 'No dialog policies to remove');
+  },
+});
+
+const dialogHistory = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_dialog_history',
+    title: 'List dialogs',
+    description: 'List the dialogs shown by the current tab and how they were handled',
+    inputSchema: z.object({
+      clear: z.boolean().optional().describe('Whether to clear the history of handled dialogs after returning it, defaults to false'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const dialogs = tab.dialogs();
+    if (!dialogs.length)
+      response.addResult('No dialogs');
+    for (const entry of dialogs)
+      response.addResult(`- ${renderDialog(entry)} on ${entry.url}`);
+    if (params.clear)
+      tab.clearDialogs();
+  },
+});
+
+function renderPolicy(policy: DialogPolicy): string {
+  const result = [policy.action, policy.type ? `"${policy.type}" dialogs` : 'all dialogs'];
+  if (policy.message)
+    result.push(`with message matching /${policy.message}/`);
+  if (policy.promptText !== undefined)
+    result.push(`entering "${policy.promptText}" into prompts`);
+  return result.join(' ');
+}
+
 export default [
   handleDialog,
+  setDialogPolicy,
+  clearDialogPolicies,
+  dialogHistory,
 ];
@@ -0,0 +1,247 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+import path from 'path';
+import mime from 'mime';
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+import * as javascript from '../javascript.js';
+import { outputFile } from '../config.js';
+
+import type { Context } from '../context.js';
+import type { DownloadEntry } from '../tab.js';
+
+// Larger downloads should be inspected with dedicated tools, e.g. browser_pdf_extract_text.
+const maxReadSize = 100 * 1024;
+
+const downloadSchema = z.string().optional().describe('File name of the download as listed by browser_download_list. Defaults to the most recent download.');
+
+const downloadList = defineTool({
+  capability: 'downloads',
+
+  schema: {
+    name: 'browser_download_list',
+    title: 'List downloads',
+    description: 'List downloads of the open tabs with their status, size, MIME type and saved location',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const downloads = allDownloads(context);
+    if (!downloads.length) {
+      response.addResult('No downloads');
+      return;
+    }
+    for (const entry of downloads)
+      response.addResult(renderDownload(context, entry));
+  },
+});
+
+const downloadWait = defineTool({
+  capability: 'downloads',
+
+  schema: {
+    name: 'browser_download_wait',
+    title: 'Wait for a download',
+    description: 'Wait for a pending download to finish. Waits for a download to start in the current tab if there is no pending download.',
+    inputSchema: z.object({
+      download: downloadSchema,
+      timeout: z.number().optional().describe('Maximum time to wait in milliseconds, defaults to 30000'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const timeout = params.timeout ?? 30000;
+    let entry = allDownloads(context).filter(entry => matchesDownload(entry, params.download)).pop();
+    if (!entry || (!params.download && entry.status !== 'in progress')) {
+      const tab = context.currentTabOrDie();
+      response.addCode(`const download = await page.waitForEvent('download');`);
+      const download = await tab.page.waitForEvent('download', {
+        predicate: download => matchesDownload({ download }, params.download),
+        timeout,
+      }).catch(() => {
+        throw new Error(`Timed out ${timeout}ms waiting for ${params.download ? `download of ${params.download}` : 'a download'} to start`);
+      });
+      entry = tab.downloads().find(entry => entry.download === download)!;
+    } else {
+      response.setCodeNotStandalone();
+    }
+
+    response.addCode(`await download.path();`);
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = await Promise.race([
+      entry.finished.then(() => false),
+      new Promise<boolean>(resolve => timer = setTimeout(() => resolve(true), timeout)),
+    ]);
+    clearTimeout(timer);
+    if (timedOut)
+      throw new Error(`Timed out ${timeout}ms waiting for download of ${entry.download.suggestedFilename()} to finish`);
+    response.addResult(renderDownload(context, entry));
+  },
+});
+
+const downloadCancel = defineTool({
+  capability: 'downloads',
+
+  schema: {
+    name: 'browser_download_cancel',
+    title: 'Cancel a download',
+    description: 'Cancel a download that is in progress',
+    inputSchema: z.object({
+      download: downloadSchema,
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    const entry = findDownload(context, params.download);
+    if (entry.status !== 'in progress')
+      throw new Error(`Download of ${entry.download.suggestedFilename()} is already ${entry.status}`);
+
+    response.addCode(`await download.cancel();`);
+    response.setCodeNotStandalone();
+    entry.status = 'canceled';
+    await entry.download.cancel();
+    await entry.finished;
+    response.addResult(`Canceled download of ${entry.download.suggestedFilename()}`);
+  },
+});
+
+const downloadRead = defineTool({
+  capability: 'downloads',
+
+  schema: {
+    name: 'browser_download_read',
+    title: 'Read a download',
+    description: `Return the content of a finished text, CSV or JSON download of up to ${maxReadSize / 1024} KB`,
+    inputSchema: z.object({
+      download: downloadSchema,
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const entry = findFinishedDownload(context, params.download);
+    const mimeType = downloadMimeType(context, entry);
+    if (!isTextualMimeType(mimeType))
+      throw new Error(`${entry.download.suggestedFilename()} is not a text file (${mimeType})`);
+    if (entry.size! > maxReadSize)
+      throw new Error(`${entry.download.suggestedFilename()} is too large to read inline (${entry.size} bytes), the file is saved to ${entry.outputFile}`);
+
+    response.addCode(`await fs.promises.readFile(await download.path(), 'utf-8');`);
+    response.setCodeNotStandalone();
+    const content = await fs.promises.readFile(entry.outputFile!, 'utf-8');
+    if (isJsonMimeType(mimeType)) {
+      try {
+        response.addResult(JSON.stringify(JSON.parse(content), null, 2));
+        return;
+      } catch {
+        // Not valid JSON, return the raw content.
+      }
+    }
+    response.addResult(content);
+  },
+});
+
+const downloadSaveAs = defineTool({
+  capability: 'downloads',
+
+  schema: {
+    name: 'browser_download_save_as',
+    title: 'Rename a download',
+    description: 'Move a finished download to the given file name in the output directory',
+    inputSchema: z.object({
+      download: downloadSchema,
+      filename: z.string().describe('File name to move the download to'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    const entry = findFinishedDownload(context, params.download);
+    const fileName = await outputFile(context.config, params.filename);
+    response.addCode(`await download.saveAs(${javascript.quote(fileName)});`);
+    response.setCodeNotStandalone();
+    await fs.promises.rename(entry.outputFile!, fileName);
+    entry.outputFile = fileName;
+    response.addResult(`Moved download of ${entry.download.suggestedFilename()} to ${fileName}`);
+  },
+});
+
+function allDownloads(context: Context): DownloadEntry[] {
+  return context.tabs().flatMap(tab => tab.downloads());
+}
+
+function matchesDownload(entry: Pick<DownloadEntry, 'download' | 'outputFile'>, name: string | undefined): boolean {
+  return !name || entry.download.suggestedFilename() === name || (!!entry.outputFile && path.basename(entry.outputFile) === name);
+}
+
+function findDownload(context: Context, name: string | undefined): DownloadEntry {
+  const entry = allDownloads(context).filter(entry => matchesDownload(entry, name)).pop();
+  if (!entry)
+    throw new Error(name ? `No download of ${name}, use browser_download_list to list downloads` : 'No downloads');
+  return entry;
+}
+
+function findFinishedDownload(context: Context, name: string | undefined): DownloadEntry {
+  const entry = findDownload(context, name);
+  if (entry.status === 'in progress')
+    throw new Error(`Download of ${entry.download.suggestedFilename()} is in progress, use browser_download_wait to wait for it`);
+  if (entry.status !== 'finished')
+    throw new Error(`Download of ${entry.download.suggestedFilename()} ${entry.status}${entry.error ? `: ${entry.error}` : ''}`);
+  return entry;
+}
+
+function downloadMimeType(context: Context, entry: DownloadEntry): string {
+  // Prefer the Content-Type of the response the download came from.
+  for (const tab of context.tabs()) {
+    for (const [request, response] of tab.requests()) {
+      const contentType = request.url() === entry.download.url() ? response?.headers()['content-type'] : undefined;
+      if (contentType && contentType !== 'application/octet-stream')
+        return contentType.split(';')[0].trim();
+    }
+  }
+  return mime.getType(entry.download.suggestedFilename()) ?? 'application/octet-stream';
+}
+
+function isJsonMimeType(mimeType: string): boolean {
+  return /^(application\/(.+\+)?json|text\/(x-)?json)$/.test(mimeType);
+}
+
+function isTextualMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || isJsonMimeType(mimeType) || /^(application\/((x-)?javascript|ecmascript|(.+\+)?xml)|image\/svg\+xml)$/.test(mimeType);
+}
+
+function renderDownload(context: Context, entry: DownloadEntry): string {
+  const details: string[] = [entry.status];
+  if (entry.size !== undefined)
+    details.push(`${entry.size} bytes`);
+  details.push(downloadMimeType(context, entry));
+  const location = entry.status === 'finished' ? `, saved to ${entry.outputFile}` : entry.error ? `: ${entry.error}` : '';
+  return `- ${entry.download.suggestedFilename()} (${details.join(', ')})${location}`;
+}
+
+export default [
+  downloadList,
+  downloadWait,
+  downloadCancel,
+  downloadRead,
+  downloadSaveAs,
+];
@@ -0,0 +1,185 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { z } from 'zod';
+import { defineTabTool, defineTool } from './tool.js';
+import * as javascript from '../javascript.js';
+
+const setGeolocation = defineTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_set_geolocation',
+    title: 'Set geolocation',
+    description: 'Emulate the geolocation of the browser context and grant the geolocation permission. Clears the emulated geolocation if latitude and longitude are not provided.',
+    inputSchema: z.object({
+      latitude: z.number().min(-90).max(90).optional().describe('Latitude between -90 and 90'),
+      longitude: z.number().min(-180).max(180).optional().describe('Longitude between -180 and 180'),
+      accuracy: z.number().min(0).optional().describe('Accuracy in meters, defaults to 0'),
+    }).refine(data => {
+      return (data.latitude === undefined) === (data.longitude === undefined);
+    }, {
+      message: 'Both latitude and longitude must be provided or neither.',
+      path: ['latitude', 'longitude']
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Test location-aware pages without restarting the browser',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    await context.ensureTab();
+    if (params.latitude === undefined || params.longitude === undefined) {
+      response.addCode(`await page.context().setGeolocation(null);`);
+      await context.setGeolocation(null);
+      response.addResult('Cleared geolocation');
+      return;
+    }
+
+    const geolocation = { latitude: params.latitude, longitude: params.longitude, accuracy: params.accuracy };
+    response.addCode(`await page.context().grantPermissions(['geolocation']);`);
+    response.addCode(`await page.context().setGeolocation(${javascript.formatObject(geolocation)});`);
+    await context.grantPermissions(['geolocation']);
+    await context.setGeolocation(geolocation);
+    response.addResult(`Set geolocation to ${params.latitude}, ${params.longitude}`);
+  },
+});
+
+const grantPermissions = defineTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_grant_permissions',
+    title: 'Grant permissions',
+    description: 'Grant browser permissions, such as "geolocation", "notifications", "camera", "microphone" or "clipboard-read", to the browser context',
+    inputSchema: z.object({
+      permissions: z.array(z.string()).min(1).describe('Permissions to grant'),
+      origin: z.string().optional().describe('Origin to grant the permissions to, for example "https://example.com". Grants to all origins if not specified.'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    await context.ensureTab();
+    const options = params.origin ? { origin: params.origin } : undefined;
+    response.addCode(`await page.context().grantPermissions(${javascript.formatObject(params.permissions)}${options ? `, ${javascript.formatObject(options)}` : ''});`);
+    await context.grantPermissions(params.permissions, params.origin);
+    response.addResult(`Granted ${params.permissions.join(', ')}${params.origin ? ` to ${params.origin}` : ''}`);
+  },
+});
+
+const clearPermissions = defineTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_clear_permissions',
+    title: 'Revoke permissions',
+    description: 'Revoke all permissions granted to the browser context. Single permissions cannot be revoked, grant the ones to keep again afterwards.',
+    inputSchema: z.object({}),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    await context.ensureTab();
+    response.addCode(`await page.context().clearPermissions();`);
+    await context.clearPermissions();
+    response.addResult('Revoked all permissions');
+  },
+});
+
+const emulateMedia = defineTabTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_emulate_media',
+    title: 'Emulate media features',
+    description: 'Emulate CSS media type and media features of the current tab, such as dark mode or reduced motion',
+    inputSchema: z.object({
+      colorScheme: z.enum(['light', 'dark', 'no-preference']).optional().describe('Emulated prefers-color-scheme'),
+      reducedMotion: z.enum(['reduce', 'no-preference']).optional().describe('Emulated prefers-reduced-motion'),
+      forcedColors: z.enum(['active', 'none']).optional().describe('Emulated forced-colors'),
+      media: z.enum(['screen', 'print']).optional().describe('Emulated CSS media type'),
+    }).refine(data => {
+      return Object.values(data).some(value => value !== undefined);
+    }, {
+      message: 'At least one media feature must be specified.',
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Switch dark mode and reduced motion at runtime',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const options = { colorScheme: params.colorScheme, reducedMotion: params.reducedMotion, forcedColors: params.forcedColors, media: params.media };
+    response.addCode(`await page.emulateMedia(${javascript.formatObject(options)});`);
+    await tab.emulateMedia(options);
+    response.setIncludeSnapshot();
+    const features = Object.entries(options).filter(([, value]) => value !== undefined).map(([key, value]) => `${key}: ${value}`);
+    response.addResult(`Emulating ${features.join(', ')}`);
+  },
+});
+
+const setLocale = defineTool({
+  capability: 'emulation',
+
+  schema: {
+    name: 'browser_set_locale',
+    title: 'Set locale and timezone',
+    description: 'Change the locale and timezone of the current browser context. The browser context is recreated: cookies, local storage, geolocation, permissions and emulated media are preserved and open tabs are reloaded, session storage and page state are lost.',
+    inputSchema: z.object({
+      locale: z.string().optional().describe('Locale, for example "de-DE". Affects navigator.language, the Accept-Language header and number and date formatting.'),
+      timezoneId: z.string().optional().describe('Timezone ID, for example "Europe/Berlin"'),
+    }).refine(data => {
+      return data.locale !== undefined || data.timezoneId !== undefined;
+    }, {
+      message: 'At least one of locale or timezoneId must be specified.',
+      path: ['locale', 'timezoneId']
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Test localized pages without restarting the server',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    if (context.config.browser.cdpEndpoint && !context.config.browser.isolated)
+      throw new Error('Locale and timezone cannot be changed for an existing browser context connected over CDP, use --isolated');
+
+    const options = { locale: params.locale, timezoneId: params.timezoneId };
+    await context.recreateBrowserContext(options);
+
+    response.addCode(`// Locale and timezone can only be set for a new browser context, in tests use:`);
+    response.addCode(`// test.use(${javascript.formatObject(options).replace(/\n\s*/g, ' ')});`);
+    response.setIncludeSnapshot();
+    response.setIncludeTabs();
+    const changes = Object.entries(options).filter(([, value]) => value !== undefined).map(([key, value]) => `${key}: ${value}`);
+    response.addResult(`Recreated browser context with ${changes.join(', ')}`);
+  },
+});
+
+export default [
+  setGeolocation,
+  grantPermissions,
+  clearPermissions,
+  emulateMedia,
+  setLocale,
+];
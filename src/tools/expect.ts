@@ -0,0 +1,182 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { z } from 'zod';
+import { expect } from 'playwright/test';
+import { defineTabTool } from './tool.js';
+import { generateLocator } from './utils.js';
+import * as javascript from '../javascript.js';
+
+import type * as playwright from 'playwright';
+import type { Tab } from '../tab.js';
+import type { Response } from '../response.js';
+
+const targetSchema = z.object({
+  element: z.string().optional().describe('Human-readable element description'),
+  ref: z.string().optional().describe('Exact target element reference from the page snapshot. Cannot be combined with locator.'),
+  locator: z.string().optional().describe('Playwright locator string to target instead of a ref, for example "#id" or "text=Hello". Cannot be combined with ref.'),
+  timeout: z.number().optional().describe('Time in milliseconds to retry the assertion for, defaults to 5000'),
+});
+
+function refineTarget<T extends z.AnyZodObject>(schema: T) {
+  return schema.refine((data: z.output<typeof targetSchema>) => {
+    return !!data.ref !== !!data.locator;
+  }, {
+    message: 'Exactly one of ref or locator must be specified.',
+    path: ['ref', 'locator']
+  });
+}
+
+const expectVisible = defineTabTool({
+  capability: 'testing',
+
+  schema: {
+    name: 'browser_expect_visible',
+    title: 'Expect element visibility',
+    description: 'Assert that an element is visible, or hidden, retrying until the timeout',
+    inputSchema: refineTarget(targetSchema.extend({
+      visible: z.boolean().optional().describe('Whether the element is expected to be visible, defaults to true'),
+    })),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Verify page state and generate Playwright expect code',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const matcher = params.visible === false ? 'toBeHidden' : 'toBeVisible';
+    await runExpect(tab, params, response, matcher, undefined, locator => expect(locator)[matcher]({ timeout: params.timeout }));
+  },
+});
+
+const expectText = defineTabTool({
+  capability: 'testing',
+
+  schema: {
+    name: 'browser_expect_text',
+    title: 'Expect element text',
+    description: 'Assert that an element contains, or exactly has, the given text, retrying until the timeout',
+    inputSchema: refineTarget(targetSchema.extend({
+      text: z.string().describe('Expected text'),
+      exact: z.boolean().optional().describe('Whether the whole text of the element must match, defaults to false'),
+    })),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const matcher = params.exact ? 'toHaveText' : 'toContainText';
+    await runExpect(tab, params, response, matcher, params.text, locator => expect(locator)[matcher](params.text, { timeout: params.timeout }));
+  },
+});
+
+const expectValue = defineTabTool({
+  capability: 'testing',
+
+  schema: {
+    name: 'browser_expect_value',
+    title: 'Expect input value',
+    description: 'Assert that an input, textarea or select element has the given value, retrying until the timeout',
+    inputSchema: refineTarget(targetSchema.extend({
+      value: z.string().describe('Expected value'),
+    })),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    await runExpect(tab, params, response, 'toHaveValue', params.value, locator => expect(locator).toHaveValue(params.value, { timeout: params.timeout }));
+  },
+});
+
+const expectCount = defineTabTool({
+  capability: 'testing',
+
+  schema: {
+    name: 'browser_expect_count',
+    title: 'Expect element count',
+    description: 'Assert that a locator resolves to the given number of elements, retrying until the timeout',
+    inputSchema: z.object({
+      locator: z.string().describe('Playwright locator string, for example "li" or "role=listitem"'),
+      count: z.number().describe('Expected number of elements'),
+      timeout: targetSchema.shape.timeout,
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    await runExpect(tab, params, response, 'toHaveCount', params.count, locator => expect(locator).toHaveCount(params.count, { timeout: params.timeout }));
+  },
+});
+
+const expectUrl = defineTabTool({
+  capability: 'testing',
+
+  schema: {
+    name: 'browser_expect_url',
+    title: 'Expect page URL',
+    description: 'Assert that the current page has the given URL, retrying until the timeout',
+    inputSchema: z.object({
+      url: z.string().describe('Expected URL, or a regular expression source when regex is true'),
+      regex: z.boolean().optional().describe('Whether url is a regular expression, defaults to false'),
+      timeout: targetSchema.shape.timeout,
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const expected = params.regex ? new RegExp(params.url) : params.url;
+    const args = [params.regex ? expected.toString() : javascript.quote(params.url), ...formatOptions(params.timeout)];
+    response.addCode(`await expect(page).toHaveURL(${args.join(', ')});`);
+    await runAssertion(() => expect(tab.page).toHaveURL(expected, { timeout: params.timeout }));
+    response.addResult(`Page URL matches ${expected}`);
+  },
+});
+
+async function runExpect(
+  tab: Tab,
+  params: { element?: string, ref?: string, locator?: string, timeout?: number },
+  response: Response,
+  matcher: string,
+  expected: string | number | undefined,
+  assertion: (locator: playwright.Locator) => Promise<void>) {
+  const locator = params.ref ? await tab.refLocator({ element: params.element ?? params.ref, ref: params.ref }) : tab.page.locator(params.locator!);
+  const args = expected === undefined ? [] : [typeof expected === 'string' ? javascript.quote(expected) : String(expected)];
+  response.addCode(`await expect(page.${await generateLocator(locator)}).${matcher}(${[...args, ...formatOptions(params.timeout)].join(', ')});`);
+  await runAssertion(() => assertion(locator));
+  response.addResult(`Assertion ${matcher} passed for ${params.element ?? params.ref ?? params.locator}`);
+}
+
+async function runAssertion(assertion: () => Promise<void>) {
+  try {
+    await assertion();
+  } catch (error) {
+    // Strip terminal colors from the matcher diff so that it reads well in the tool result.
+    throw new Error(String((error as Error).message).replace(/\u001b\[\d+m/g, ''));
+  }
+}
+
+function formatOptions(timeout: number | undefined): string[] {
+  return timeout !== undefined ? [javascript.formatObject({ timeout })] : [];
+}
+
+export default [
+  expectVisible,
+  expectText,
+  expectValue,
+  expectUrl,
+  expectCount,
+];
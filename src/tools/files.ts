@@ -39,6 +39,7 @@ const uploadFile = defineTabTool({
 
     response.addCode(`// Select files for upload`);
     response.addCode(`await fileChooser.setFiles(${JSON.stringify(params.paths)})`);
+    response.setCodeNotStandalone();
 
     tab.clearModalState(modalState);
     await tab.waitForCompletion(async () => {
@@ -0,0 +1,126 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { z } from 'zod';
+import { defineTabTool } from './tool.js';
+import { generateLocator } from './utils.js';
+import * as javascript from '../javascript.js';
+
+import type * as playwright from 'playwright';
+
+const fieldTypes = ['text', 'checkbox', 'radio', 'select', 'date', 'file'] as const;
+type FieldType = typeof fieldTypes[number];
+
+const fillForm = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_fill_form',
+    title: 'Fill form',
+    description: 'Fill multiple form fields in one call. Each field is filled with the action matching its control: fill for text and date inputs, check or uncheck for checkboxes and radio buttons, selectOption for dropdowns and setInputFiles for file inputs.',
+    inputSchema: z.object({
+      fields: z.array(z.object({
+        element: z.string().describe('Human-readable field description used to obtain permission to interact with the element'),
+        ref: z.string().describe('Exact target field reference from the page snapshot'),
+        value: z.string().describe('Value to set. "true" or "false" for checkboxes, "true" for radio buttons, the option value or label for dropdowns, the absolute file path for file inputs.'),
+        type: z.enum(fieldTypes).optional().describe('Type of the control. Detected from the element if not specified.'),
+      })).min(1).describe('Fields to fill, in order'),
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Fill whole forms with a single call and a single snapshot',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    response.setIncludeSnapshot();
+
+    const locators = await tab.refLocators(params.fields);
+    const actions: (() => Promise<void>)[] = [];
+    for (let i = 0; i < params.fields.length; ++i) {
+      const field = params.fields[i];
+      const locator = locators[i];
+      const type = field.type ?? await detectFieldType(locator);
+      const { code, action } = fieldAction(locator, type, field.element, field.value);
+      response.addCode(`// Set "${field.element}" to ${javascript.quote(field.value)}`);
+      response.addCode(`await page.${await generateLocator(locator)}.${code};`);
+      actions.push(action);
+    }
+
+    await tab.waitForCompletion(async () => {
+      for (const action of actions)
+        await action();
+    });
+  },
+});
+
+function fieldAction(locator: playwright.Locator, type: FieldType, element: string, value: string): { code: string, action: () => Promise<void> } {
+  switch (type) {
+    case 'radio':
+      if (value === 'false')
+        throw new Error(`Radio button "${element}" cannot be unchecked, select another option of its group instead`);
+      return {
+        code: 'check()',
+        action: () => locator.check(),
+      };
+    case 'checkbox': {
+      const checked = value !== 'false';
+      return {
+        code: checked ? 'check()' : 'uncheck()',
+        action: () => checked ? locator.check() : locator.uncheck(),
+      };
+    }
+    case 'select':
+      return {
+        code: `selectOption(${javascript.quote(value)})`,
+        action: async () => { await locator.selectOption(value); },
+      };
+    case 'file':
+      return {
+        code: `setInputFiles(${javascript.quote(value)})`,
+        action: () => locator.setInputFiles(value),
+      };
+    default:
+      return {
+        code: `fill(${javascript.quote(value)})`,
+        action: () => locator.fill(value),
+      };
+  }
+}
+
+async function detectFieldType(locator: playwright.Locator): Promise<FieldType> {
+  return await locator.evaluate((element: Element) => {
+    const role = element.getAttribute('role');
+    if (role === 'checkbox' || role === 'radio')
+      return role;
+    if (element.tagName === 'SELECT')
+      return 'select';
+    if (element.tagName !== 'INPUT')
+      return 'text';
+    const type = (element as HTMLInputElement).type;
+    if (type === 'checkbox' || type === 'radio' || type === 'file')
+      return type;
+    if (['date', 'datetime-local', 'month', 'week', 'time'].includes(type))
+      return 'date';
+    return 'text';
+  });
+}
+
+export default [
+  fillForm,
+];
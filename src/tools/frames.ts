@@ -0,0 +1,79 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { z } from 'zod';
+import { defineTabTool } from './tool.js';
+
+import type * as playwright from 'playwright';
+
+const frames = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_frames',
+    title: 'List frames',
+    description: 'List the frame tree of the current page with frame names, URLs and the selectors to use in the frame parameter of locator-based tools',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Inspect content of embedded iframes with locator-based tools',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const lines = [`- main frame (${tab.page.mainFrame().url()})`];
+    for (const child of tab.page.mainFrame().childFrames())
+      lines.push(...await renderFrame(child, '  '));
+    response.addResult(lines.join('\n'));
+  },
+});
+
+async function renderFrame(frame: playwright.Frame, indent: string): Promise<string[]> {
+  if (frame.isDetached())
+    return [];
+  const name = frame.name() ? ` "${frame.name()}"` : '';
+  const lines = [`${indent}- ${await frameSelector(frame)}${name} (${frame.url()})`];
+  for (const child of frame.childFrames())
+    lines.push(...await renderFrame(child, indent + '  '));
+  return lines;
+}
+
+async function frameSelector(frame: playwright.Frame): Promise<string> {
+  const element = await frame.frameElement().catch(() => undefined);
+  if (!element)
+    return 'iframe';
+  const { tagName, id, name, src, index } = await element.evaluate((el: Element) => ({
+    tagName: el.tagName.toLowerCase(),
+    id: el.id,
+    name: el.getAttribute('name'),
+    src: el.getAttribute('src'),
+    index: [...el.ownerDocument.querySelectorAll(el.tagName)].indexOf(el),
+  }));
+  await element.dispose();
+  if (id)
+    return `#${id}`;
+  if (name)
+    return `${tagName}[name="${name}"]`;
+  if (src && !src.startsWith('data:'))
+    return `${tagName}[src="${src}"]`;
+  return `${tagName} >> nth=${index}`;
+}
+
+export default [
+  frames,
+];
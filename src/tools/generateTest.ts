@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+import { outputFile } from '../config.js';
+
+const generateTest = defineTool({
+  capability: 'testing',
+
+  schema: {
+    name: 'browser_generate_test',
+    title: 'Generate a Playwright test',
+    description: 'Save the Playwright code of all tool calls made so far in the session as a runnable @playwright/test spec file in the output directory',
+    inputSchema: z.object({
+      name: z.string().optional().describe('Title of the generated test, defaults to "session"'),
+      filename: z.string().optional().describe('File name to save the test to. Defaults to `test-{timestamp}.spec.ts` if not specified.'),
+    }),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Check agent-discovered flows into a regression suite',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    if (!context.testGenerator.steps().length)
+      throw new Error('No Playwright code was recorded in this session yet');
+
+    const fileName = await outputFile(context.config, params.filename ?? `test-${new Date().toISOString()}.spec.ts`);
+    const code = context.testGenerator.generate(params.name ?? 'session');
+    await fs.promises.writeFile(fileName, code);
+    response.addResult(`Saved test with ${context.testGenerator.steps().length} step(s) to ${fileName}`);
+    response.addResult(['```ts', code, '```'].join('\n'));
+  },
+});
+
+export default [
+  generateTest,
+];
@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+import * as javascript from '../javascript.js';
+import { outputFile } from '../config.js';
+
+const harRecord = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_har_record',
+    title: 'Record network traffic to HAR',
+    description: 'Start recording network traffic of the browser context into a HAR file in the output directory. The file is written when the browser is closed.',
+    inputSchema: z.object({
+      filename: z.string().optional().describe('File name to save the HAR to. Defaults to `network-{timestamp}.har` if not specified.'),
+      url: z.string().optional().describe('Glob pattern of the request URLs to record. Records all requests if not specified.'),
+    }),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Capture traffic for deterministic offline replays',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    await context.ensureTab();
+    const fileName = await outputFile(context.config, params.filename ?? `network-${new Date().toISOString()}.har`);
+    const options = { update: true, updateContent: 'embed' as const, updateMode: 'full' as const, url: params.url };
+    await context.addHarRoute(fileName, options);
+
+    response.addCode(`// Record network traffic to ${fileName}`);
+    response.addCode(`await page.context().routeFromHAR(${javascript.quote(fileName)}, ${javascript.formatObject(options)});`);
+    response.addResult(`Recording network traffic to ${fileName}. The file is written when the browser is closed with browser_close.`);
+  },
+});
+
+const harReplay = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_har_replay',
+    title: 'Replay network traffic from HAR',
+    description: 'Serve network responses of all browser contexts from an existing HAR file, including contexts created later',
+    inputSchema: z.object({
+      path: z.string().describe('The absolute path to the HAR file to serve responses from'),
+      url: z.string().optional().describe('Glob pattern of the request URLs to serve from the HAR. Serves all requests if not specified.'),
+      notFound: z.enum(['abort', 'fallback']).optional().describe('What to do with requests that are not found in the HAR: "abort" fails them, "fallback" sends them to the network. Defaults to "abort".'),
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Run flows offline against previously captured traffic',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    await context.ensureTab();
+    const options = { url: params.url, notFound: params.notFound ?? 'abort' };
+    await context.addHarRoute(params.path, options);
+
+    response.addCode(`// Serve network responses from ${params.path}`);
+    response.addCode(`await page.context().routeFromHAR(${javascript.quote(params.path)}, ${javascript.formatObject(options)});`);
+    response.addResult(`Serving network responses from ${params.path}`);
+  },
+});
+
+export default [
+  harRecord,
+  harReplay,
+];
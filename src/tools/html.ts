@@ -17,10 +17,12 @@
 import { z } from 'zod';
 
 import { defineTool } from './tool.js';
+import { frameRoot, frameSchema } from './utils.js';
 
 const htmlContentSchema = z.object({
   locator: z.string().optional().describe('Playwright locator string to get HTML content of a specific element (e.g., "#id", ".class", "text=Hello"). Cannot be combined with locators parameter.'),
   locators: z.array(z.string()).optional().describe('Array of Playwright locator strings to get HTML content of multiple elements. Cannot be combined with locator parameter.'),
+  frame: frameSchema,
 }).refine(data => {
   const paramCount = [data.locator, data.locators].filter(Boolean).length;
   return paramCount <= 1;
@@ -47,6 +49,7 @@ const htmlContent = defineTool({
     const tab = context.currentTabOrDie();
     const isMultipleLocators = params.locators && params.locators.length > 0;
     const isSingleLocator = params.locator;
+    const { root, code } = frameRoot(tab.page, params.frame);
 
     await tab.waitForCompletion(async () => {
       if (isMultipleLocators) {
@@ -55,8 +58,8 @@ const htmlContent = defineTool({
         const htmlContents = await Promise.all(
           params.locators!.map(async (loc, index) => {
             try {
-              response.addCode(`const html_${index} = await page.locator('${loc}').innerHTML();`);
-              const html = await tab.page.locator(loc).innerHTML();
+              response.addCode(`const html_${index} = await ${code}.locator('${loc}').innerHTML();`);
+              const html = await root.locator(loc).innerHTML();
               return `### Element ${index + 1} (${loc}):\n\`\`\`html\n${html}\n\`\`\``;
             } catch (error) {
               return `### Element ${index + 1} (${loc}):\nError: ${(error as Error).message}`;
@@ -67,11 +70,11 @@ const htmlContent = defineTool({
         response.addResult(htmlContents.join('\n\n'));
       } else if (isSingleLocator) {
         response.addCode(`// Get HTML content of element(s) by locator: ${params.locator}`);
-        response.addCode(`const elements = await page.locator('${params.locator}').all();`);
+        response.addCode(`const elements = await ${code}.locator('${params.locator}').all();`);
         response.addCode(`const htmlContents = await Promise.all(elements.map(el => el.innerHTML()));`);
 
         try {
-          const locator = tab.page.locator(params.locator!);
+          const locator = root.locator(params.locator!);
           const elements = await locator.all();
 
           if (elements.length === 0) {
@@ -94,6 +97,12 @@ const htmlContent = defineTool({
         } catch (error) {
           response.addResult(`### Element HTML (${params.locator}):\nError: ${(error as Error).message}`);
         }
+      } else if (params.frame?.length) {
+        response.addCode(`// Get HTML content of frame ${params.frame.join(' > ')}`);
+        response.addCode(`const html = await ${code}.locator(':root').evaluate(el => el.outerHTML);`);
+
+        const html = await root.locator(':root').evaluate((el: Element) => el.outerHTML);
+        response.addResult(`### Frame HTML (${params.frame.join(' > ')}):\n\`\`\`html\n${html}\n\`\`\``);
       } else {
         response.addCode(`// Get full page HTML content`);
         response.addCode(`const html = await page.content();`);
@@ -114,6 +123,7 @@ const outerHtmlContent = defineTool({
     inputSchema: z.object({
       locator: z.string().optional().describe('Playwright locator string to get outer HTML content of a specific element (e.g., "#id", ".class", "text=Hello"). Cannot be combined with locators parameter.'),
       locators: z.array(z.string()).optional().describe('Array of Playwright locator strings to get outer HTML content of multiple elements. Cannot be combined with locator parameter.'),
+      frame: frameSchema,
     }).refine(data => {
       const paramCount = [data.locator, data.locators].filter(Boolean).length;
       return paramCount === 1;
@@ -132,6 +142,7 @@ const outerHtmlContent = defineTool({
     const tab = context.currentTabOrDie();
     const isMultipleLocators = params.locators && params.locators.length > 0;
     const isSingleLocator = params.locator;
+    const { root, code } = frameRoot(tab.page, params.frame);
 
     await tab.waitForCompletion(async () => {
       if (isMultipleLocators) {
@@ -140,8 +151,8 @@ const outerHtmlContent = defineTool({
         const htmlContents = await Promise.all(
           params.locators!.map(async (loc, index) => {
             try {
-              response.addCode(`const outerHtml_${index} = await page.locator('${loc}').evaluate(el => el.outerHTML);`);
-              const html = await tab.page.locator(loc).evaluate((el: Element) => el.outerHTML);
+              response.addCode(`const outerHtml_${index} = await ${code}.locator('${loc}').evaluate(el => el.outerHTML);`);
+              const html = await root.locator(loc).evaluate((el: Element) => el.outerHTML);
               return `### Element ${index + 1} (${loc}):\n\`\`\`html\n${html}\n\`\`\``;
             } catch (error) {
               return `### Element ${index + 1} (${loc}):\nError: ${(error as Error).message}`;
@@ -152,11 +163,11 @@ const outerHtmlContent = defineTool({
         response.addResult(htmlContents.join('\n\n'));
       } else if (isSingleLocator) {
         response.addCode(`// Get outer HTML content of element(s) by locator: ${params.locator}`);
-        response.addCode(`const elements = await page.locator('${params.locator}').all();`);
+        response.addCode(`const elements = await ${code}.locator('${params.locator}').all();`);
         response.addCode(`const htmlContents = await Promise.all(elements.map(el => el.evaluate(el => el.outerHTML)));`);
 
         try {
-          const locator = tab.page.locator(params.locator!);
+          const locator = root.locator(params.locator!);
           const elements = await locator.all();
 
           if (elements.length === 0) {
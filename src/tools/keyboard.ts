@@ -27,20 +27,35 @@ const pressKey = defineTabTool({
   schema: {
     name: 'browser_press_key',
     title: 'Press a key',
-    description: 'Press a key on the keyboard',
+    description: 'Press a key or a chord of keys on the keyboard, or hold keys down and release them',
     inputSchema: z.object({
-      key: z.string().describe('Name of the key to press or a character to generate, such as `ArrowLeft` or `a`'),
+      key: z.string().describe('Name of the key to press or a character to generate, such as `ArrowLeft` or `a`, or a chord of keys joined with "+", such as `Control+Shift+K`'),
+      action: z.enum(['press', 'down', 'up']).optional().describe('"press" presses and releases the keys, "down" holds them down until they are released with "up". Defaults to "press".'),
     }),
     type: 'destructive',
   },
 
   handle: async (tab, params, response) => {
     response.setIncludeSnapshot();
-    response.addCode(`// Press ${params.key}`);
-    response.addCode(`await page.keyboard.press('${params.key}');`);
+    const action = params.action ?? 'press';
+    if (action === 'press') {
+      response.addCode(`// Press ${params.key}`);
+      response.addCode(`await page.keyboard.press(${javascript.quote(params.key)});`);
+    } else {
+      response.addCode(`// ${action === 'down' ? 'Hold' : 'Release'} ${params.key}`);
+    }
 
+    // Keys of a chord are held down in order and released in reverse order.
+    const keys = action === 'up' ? splitChord(params.key).reverse() : splitChord(params.key);
     await tab.waitForCompletion(async () => {
-      await tab.page.keyboard.press(params.key);
+      if (action === 'press') {
+        await tab.page.keyboard.press(params.key);
+        return;
+      }
+      for (const key of keys) {
+        response.addCode(`await page.keyboard.${action}(${javascript.quote(key)});`);
+        await tab.page.keyboard[action](key);
+      }
     });
   },
 });
@@ -49,6 +64,8 @@ const typeSchema = elementSchema.extend({
   text: z.string().describe('Text to type into the element'),
   submit: z.boolean().optional().describe('Whether to submit entered text (press Enter after)'),
   slowly: z.boolean().optional().describe('Whether to type one character at a time. Useful for triggering key handlers in the page. By default entire text is filled in at once.'),
+  delay: z.number().min(0).optional().describe('Time to wait between key presses in milliseconds, implies slowly'),
+  clear: z.boolean().optional().describe('Whether to select all and delete the existing content before typing'),
 });
 
 const type = defineTabTool({
@@ -67,10 +84,19 @@ const type = defineTabTool({
     const locator = await tab.refLocator(params);
 
     await tab.waitForCompletion(async () => {
-      if (params.slowly) {
+      if (params.clear) {
+        response.addCode(`// Clear "${params.element}"`);
+        response.addCode(`await page.${await generateLocator(locator)}.press('ControlOrMeta+a');`);
+        response.addCode(`await page.${await generateLocator(locator)}.press('Delete');`);
+        await locator.press('ControlOrMeta+a');
+        await locator.press('Delete');
+      }
+
+      if (params.slowly || params.delay !== undefined) {
+        const options = params.delay !== undefined ? `, { delay: ${params.delay} }` : '';
         response.addCode(`// Press "${params.text}" sequentially into "${params.element}"`);
-        response.addCode(`await page.${await generateLocator(locator)}.pressSequentially(${javascript.quote(params.text)});`);
-        await locator.pressSequentially(params.text);
+        response.addCode(`await page.${await generateLocator(locator)}.pressSequentially(${javascript.quote(params.text)}${options});`);
+        await locator.pressSequentially(params.text, { delay: params.delay });
       } else {
         response.addCode(`// Fill "${params.text}" into "${params.element}"`);
         response.addCode(`await page.${await generateLocator(locator)}.fill(${javascript.quote(params.text)});`);
@@ -85,7 +111,54 @@ const type = defineTabTool({
   },
 });
 
+const insertTextSchema = z.object({
+  text: z.string().describe('Text to insert'),
+  element: z.string().optional().describe('Human-readable element description used to obtain permission to interact with the element. Inserts into the focused element if not specified.'),
+  ref: z.string().optional().describe('Exact target element reference from the page snapshot. Inserts into the focused element if not specified.'),
+}).refine(data => {
+  return !!data.element === !!data.ref;
+}, {
+  message: 'Both element and ref must be provided or neither.',
+  path: ['ref', 'element']
+});
+
+const insertText = defineTabTool({
+  capability: 'core',
+  schema: {
+    name: 'browser_insert_text',
+    title: 'Insert text',
+    description: 'Insert text as a single input event without key presses, like an input method editor does. Useful for emoji, CJK text and rich text editors.',
+    inputSchema: insertTextSchema,
+    type: 'destructive',
+  },
+
+  handle: async (tab, params, response) => {
+    response.setIncludeSnapshot();
+
+    const locator = params.ref && params.element ? await tab.refLocator({ ref: params.ref, element: params.element }) : undefined;
+    response.addCode(`// Insert "${params.text}"${params.element ? ` into "${params.element}"` : ''}`);
+    await tab.waitForCompletion(async () => {
+      if (locator) {
+        response.addCode(`await page.${await generateLocator(locator)}.focus();`);
+        await locator.focus();
+      }
+      response.addCode(`await page.keyboard.insertText(${javascript.quote(params.text)});`);
+      await tab.page.keyboard.insertText(params.text);
+    });
+  },
+});
+
+function splitChord(chord: string): string[] {
+  // "+" is a key of its own when it is the last key of the chord, as in "Control++".
+  if (chord === '+')
+    return ['+'];
+  if (chord.endsWith('++'))
+    return [...chord.slice(0, -2).split('+'), '+'];
+  return chord.split('+');
+}
+
 export default [
   pressKey,
   type,
+  insertText,
 ];
@@ -16,8 +16,20 @@
 
 import { z } from 'zod';
 import { defineTabTool } from './tool.js';
+import { urlMatchesGlob } from './utils.js';
 
 import type * as playwright from 'playwright';
+import type { Tab } from '../tab.js';
+
+const requestFilterSchema = z.object({
+  url: z.string().optional().describe('Glob pattern to match the request URL against, for example "**/api/**"'),
+  method: z.string().optional().describe('HTTP method to match, for example "POST"'),
+  statusMin: z.number().optional().describe('Only include requests with response status greater than or equal to this value'),
+  statusMax: z.number().optional().describe('Only include requests with response status less than or equal to this value'),
+  resourceTypes: z.array(z.string()).optional().describe('Resource types to include, for example ["xhr", "fetch"]'),
+});
+
+type RequestFilter = z.output<typeof requestFilterSchema>;
 
 const requests = defineTabTool({
   capability: 'core',
@@ -25,17 +37,67 @@ const requests = defineTabTool({
   schema: {
     name: 'browser_network_requests',
     title: 'List network requests',
-    description: 'Returns all network requests since loading the page',
-    inputSchema: z.object({}),
+    description: 'Returns all network requests since loading the page, optionally filtered by URL, method, status and resource type',
+    inputSchema: requestFilterSchema,
     type: 'readOnly',
   },
 
   handle: async (tab, params, response) => {
-    const requests = tab.requests();
-    [...requests.entries()].forEach(([req, res]) => response.addResult(renderRequest(req, res)));
+    filterRequests(tab, params).forEach(([req, res]) => response.addResult(renderRequest(req, res)));
   },
 });
 
+const requestDetailsSchema = requestFilterSchema.extend({
+  index: z.number().min(1).optional().describe('1-based index of the request among the matching requests. Defaults to the most recent matching request.'),
+  maxBodyLength: z.number().min(0).optional().describe('Maximum number of characters of the response body to return. Defaults to 2000, 0 omits the body.'),
+});
+
+const requestDetails = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_network_request_details',
+    title: 'Get network request details',
+    description: 'Returns headers, post data, response body, resource type, failure text and timing for a single network request',
+    inputSchema: requestDetailsSchema,
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Inspect headers, bodies and timing of a single request selected by URL, method, status or resource type',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const matching = filterRequests(tab, params);
+    if (!matching.length)
+      throw new Error('No network requests match the given filters');
+    const index = params.index ?? matching.length;
+    const entry = matching[index - 1];
+    if (!entry)
+      throw new Error(`Request ${index} not found, there are ${matching.length} matching requests`);
+
+    const [request, res] = entry;
+    response.addResult(`Request ${index} of ${matching.length} matching`);
+    response.addResult(await renderRequestDetails(request, res, params.maxBodyLength ?? 2000));
+  },
+});
+
+function filterRequests(tab: Tab, filter: RequestFilter): [playwright.Request, playwright.Response | null][] {
+  return [...tab.requests().entries()].filter(([request, response]) => {
+    if (filter.url && !urlMatchesGlob(request.url(), filter.url))
+      return false;
+    if (filter.method && request.method().toUpperCase() !== filter.method.toUpperCase())
+      return false;
+    if (filter.resourceTypes?.length && !filter.resourceTypes.includes(request.resourceType()))
+      return false;
+    if (filter.statusMin !== undefined && (!response || response.status() < filter.statusMin))
+      return false;
+    if (filter.statusMax !== undefined && (!response || response.status() > filter.statusMax))
+      return false;
+    return true;
+  });
+}
+
 function renderRequest(request: playwright.Request, response: playwright.Response | null) {
   const result: string[] = [];
   result.push(`[${request.method().toUpperCase()}] ${request.url()}`);
@@ -44,6 +106,77 @@ function renderRequest(request: playwright.Request, response: playwright.Respons
   return result.join(' ');
 }
 
+async function renderRequestDetails(request: playwright.Request, response: playwright.Response | null, maxBodyLength: number): Promise<string> {
+  const lines: string[] = [];
+  lines.push(renderRequest(request, response));
+  lines.push(`- Resource type: ${request.resourceType()}`);
+  const failure = request.failure();
+  if (failure)
+    lines.push(`- Failure: ${failure.errorText}`);
+  lines.push(`- Timing: ${renderTiming(request.timing())}`);
+
+  lines.push('', '#### Request headers');
+  lines.push(...renderHeaders(await request.allHeaders()));
+
+  const postData = request.postData();
+  if (postData)
+    lines.push('', '#### Request body', '```', trimBody(postData, maxBodyLength), '```');
+
+  if (!response)
+    return lines.join('\n');
+
+  lines.push('', '#### Response headers');
+  lines.push(...renderHeaders(await response.allHeaders()));
+
+  if (maxBodyLength > 0) {
+    const body = await response.body().catch(() => undefined);
+    if (body === undefined)
+      lines.push('', '#### Response body', 'Response body is not available');
+    else if (isTextContentType(response.headers()['content-type']))
+      lines.push('', '#### Response body', '```', trimBody(body.toString('utf-8'), maxBodyLength), '```');
+    else
+      lines.push('', `#### Response body (base64, ${body.length} bytes)`, '```', trimBody(body.toString('base64'), maxBodyLength), '```');
+  }
+  return lines.join('\n');
+}
+
+function renderHeaders(headers: Record<string, string>): string[] {
+  const entries = Object.entries(headers);
+  if (!entries.length)
+    return ['- No headers'];
+  return entries.map(([name, value]) => `- ${name}: ${value}`);
+}
+
+function renderTiming(timing: ReturnType<playwright.Request['timing']>): string {
+  const parts: string[] = [`started at ${new Date(timing.startTime).toISOString()}`];
+  const duration = (start: number, end: number) => start >= 0 && end >= 0 ? `${Math.round(end - start)}ms` : undefined;
+  const dns = duration(timing.domainLookupStart, timing.domainLookupEnd);
+  if (dns)
+    parts.push(`dns ${dns}`);
+  const connect = duration(timing.connectStart, timing.connectEnd);
+  if (connect)
+    parts.push(`connect ${connect}`);
+  const waiting = duration(timing.requestStart, timing.responseStart);
+  if (waiting)
+    parts.push(`waiting ${waiting}`);
+  const total = duration(0, timing.responseEnd);
+  parts.push(total ? `total ${total}` : 'not finished');
+  return parts.join(', ');
+}
+
+function isTextContentType(contentType: string | undefined): boolean {
+  if (!contentType)
+    return false;
+  return /^text\/|json|javascript|xml|x-www-form-urlencoded/.test(contentType);
+}
+
+function trimBody(body: string, maxLength: number): string {
+  if (body.length <= maxLength)
+    return body;
+  return body.slice(0, maxLength) + `\n... (${body.length - maxLength} more characters)`;
+}
+
 export default [
   requests,
+  requestDetails,
 ];
@@ -14,14 +14,35 @@
  * limitations under the License.
  */
 
+import fs from 'fs';
 import { z } from 'zod';
 import { defineTabTool } from './tool.js';
 
 import * as javascript from '../javascript.js';
 import { outputFile } from '../config.js';
 
+import type * as playwright from 'playwright';
+
+const marginSchema = z.string().optional();
+
 const pdfSchema = z.object({
   filename: z.string().optional().describe('File name to save the pdf to. Defaults to `page-{timestamp}.pdf` if not specified.'),
+  format: z.enum(['Letter', 'Legal', 'Tabloid', 'Ledger', 'A0', 'A1', 'A2', 'A3', 'A4', 'A5', 'A6']).optional().describe('Paper format, takes priority over width and height. Defaults to "Letter".'),
+  width: z.string().optional().describe('Paper width with units, for example "8.5in" or "210mm"'),
+  height: z.string().optional().describe('Paper height with units, for example "11in" or "297mm"'),
+  margin: z.object({
+    top: marginSchema,
+    right: marginSchema,
+    bottom: marginSchema,
+    left: marginSchema,
+  }).optional().describe('Paper margins with units, for example { "top": "1cm" }. Defaults to none.'),
+  landscape: z.boolean().optional().describe('Whether to use landscape orientation, defaults to false'),
+  scale: z.number().min(0.1).max(2).optional().describe('Scale of the page rendering between 0.1 and 2, defaults to 1'),
+  pageRanges: z.string().optional().describe('Pages to print, for example "1-5, 8, 11-13". Prints all pages if not specified.'),
+  headerTemplate: z.string().optional().describe('HTML template for the print header. Elements with classes date, title, url, pageNumber and totalPages are filled in.'),
+  footerTemplate: z.string().optional().describe('HTML template for the print footer, same format as headerTemplate'),
+  printBackground: z.boolean().optional().describe('Whether to print background graphics, defaults to false'),
+  media: z.enum(['print', 'screen']).optional().describe('CSS media type to render the page with, defaults to "print"'),
 });
 
 const pdf = defineTabTool({
@@ -30,20 +51,131 @@ const pdf = defineTabTool({
   schema: {
     name: 'browser_pdf_save',
     title: 'Save as PDF',
-    description: 'Save page as PDF',
+    description: 'Save page as PDF, Chromium only',
     inputSchema: pdfSchema,
     type: 'readOnly',
   },
 
   handle: async (tab, params, response) => {
     const fileName = await outputFile(tab.context.config, params.filename ?? `page-${new Date().toISOString()}.pdf`);
+    const options: NonNullable<Parameters<playwright.Page['pdf']>[0]> = {
+      path: fileName,
+      format: params.format,
+      width: params.width,
+      height: params.height,
+      margin: params.margin,
+      landscape: params.landscape,
+      scale: params.scale,
+      pageRanges: params.pageRanges,
+      displayHeaderFooter: params.headerTemplate !== undefined || params.footerTemplate !== undefined ? true : undefined,
+      headerTemplate: params.headerTemplate,
+      footerTemplate: params.footerTemplate,
+      printBackground: params.printBackground,
+    };
+    // Restore the media type emulated with browser_emulate_media, if any.
+    const previousMedia = tab.emulatedMedia().media ?? null;
     response.addCode(`// Save page as ${fileName}`);
-    response.addCode(`await page.pdf(${javascript.formatObject({ path: fileName })});`);
+    if (params.media === 'screen')
+      response.addCode(`await page.emulateMedia({ media: 'screen' });`);
+    response.addCode(`await page.pdf(${javascript.formatObject(options)});`);
+    if (params.media === 'screen')
+      response.addCode(`await page.emulateMedia({ media: ${previousMedia ? javascript.quote(previousMedia) : 'null'} });`);
+
+    if (params.media === 'screen')
+      await tab.page.emulateMedia({ media: 'screen' });
+    try {
+      await tab.page.pdf(options);
+    } finally {
+      if (params.media === 'screen')
+        await tab.page.emulateMedia({ media: previousMedia });
+    }
     response.addResult(`Saved page as ${fileName}`);
-    await tab.page.pdf({ path: fileName });
   },
 });
 
+const pdfExtractText = defineTabTool({
+  capability: 'pdf',
+
+  schema: {
+    name: 'browser_pdf_extract_text',
+    title: 'Extract PDF text',
+    description: 'Extract the text of a PDF page by page. Reads a PDF file, such as one saved with browser_pdf_save or a download, a PDF URL fetched with the cookies of the browser context, or the PDF opened in the current tab.',
+    inputSchema: z.object({
+      path: z.string().optional().describe('Absolute path to the PDF file'),
+      url: z.string().optional().describe('URL of the PDF to fetch'),
+    }).refine(data => {
+      return !(data.path && data.url);
+    }, {
+      message: 'Only one of path or url can be specified.',
+      path: ['path', 'url']
+    }),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Verify the content of generated and downloaded PDFs',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const source = params.path ?? params.url ?? tab.page.url();
+    const data = params.path ? await fs.promises.readFile(params.path) : await fetchPdf(tab.page, source);
+    if (data.subarray(0, 5).toString() !== '%PDF-')
+      throw new Error(`${source} is not a PDF${params.path || params.url ? '' : ', provide the path or url of the PDF'}`);
+
+    const pages = await extractPdfText(data);
+    response.addResult(`PDF ${source} with ${pages.length} page(s)`);
+    pages.forEach((text, index) => response.addResult(`\n#### Page ${index + 1}\n${text || '(no text)'}`));
+  },
+});
+
+async function fetchPdf(page: playwright.Page, url: string): Promise<Buffer> {
+  const pdfResponse = await page.context().request.get(url);
+  if (!pdfResponse.ok())
+    throw new Error(`Failed to fetch ${url}: ${pdfResponse.status()} ${pdfResponse.statusText()}`);
+  return await pdfResponse.body();
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist/legacy/build/pdf.mjs')> | undefined;
+
+function loadPdfjs() {
+  if (!pdfjsPromise)
+    pdfjsPromise = importPdfjs();
+  return pdfjsPromise;
+}
+
+async function importPdfjs() {
+  // pdf.js warns on stdout when it cannot find the canvas classes used for rendering, which would corrupt
+  // the stdio transport. Text extraction never renders, so stand-ins are only provided while the module loads.
+  const globals = globalThis as Record<string, unknown>;
+  const stubbed = ['DOMMatrix', 'Path2D'].filter(name => globals[name] === undefined);
+  for (const name of stubbed)
+    globals[name] = class {};
+  try {
+    return await import('pdfjs-dist/legacy/build/pdf.mjs');
+  } finally {
+    for (const name of stubbed)
+      delete globals[name];
+  }
+}
+
+async function extractPdfText(data: Buffer): Promise<string[]> {
+  const pdfjs = await loadPdfjs();
+
+  const document = await pdfjs.getDocument({ data: new Uint8Array(data), verbosity: pdfjs.VerbosityLevel.ERRORS, isEvalSupported: false }).promise;
+  try {
+    const pages: string[] = [];
+    for (let i = 1; i <= document.numPages; i++) {
+      const content = await (await document.getPage(i)).getTextContent();
+      const text = content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join('');
+      pages.push(text.trim());
+    }
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+}
+
 export default [
   pdf,
+  pdfExtractText,
 ];
@@ -0,0 +1,189 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+import { z } from 'zod';
+import { defineTabTool } from './tool.js';
+import { outputFile } from '../config.js';
+import { collectPerformance } from '../performance.js';
+
+import type * as playwright from 'playwright';
+import type { Tab } from '../tab.js';
+
+const cpuProfiles = new WeakMap<Tab, playwright.CDPSession>();
+
+const performanceMetrics = defineTabTool({
+  capability: 'performance',
+
+  schema: {
+    name: 'browser_performance_metrics',
+    title: 'Get performance metrics',
+    description: 'Report navigation timing, Web Vitals (LCP, CLS and approximations of INP and TBT), long tasks, JS heap size and network resources of the current page. On Chromium, also reports the browser performance metrics.',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Measure page load and runtime performance without DevTools',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const metrics = await tab.page.evaluate(collectPerformance);
+    const lines = [`- Page URL: ${tab.page.url()}`];
+
+    lines.push('', '#### Navigation timing');
+    if (metrics.navigation) {
+      lines.push(`- Time to first byte: ${formatTime(metrics.navigation.timeToFirstByte)}`);
+      lines.push(`- First contentful paint: ${formatTime(metrics.navigation.firstContentfulPaint)}`);
+      lines.push(`- DOMContentLoaded: ${formatTime(metrics.navigation.domContentLoaded)}`);
+      lines.push(`- Load: ${formatTime(metrics.navigation.load)}`);
+    } else {
+      lines.push('- Not available');
+    }
+
+    lines.push('', '#### Web Vitals');
+    if (metrics.observed) {
+      const lcp = metrics.largestContentfulPaint;
+      lines.push(`- Largest contentful paint: ${lcp ? `${formatTime(lcp.time)}${lcp.element ? ` (${lcp.element})` : ''}` : 'n/a'}`);
+      lines.push(`- Cumulative layout shift: ${metrics.cumulativeLayoutShift.toFixed(3)}`);
+      lines.push(`- Interaction to next paint (approx.): ${metrics.interactionToNextPaint === undefined ? 'n/a, no interactions yet' : formatTime(metrics.interactionToNextPaint)}`);
+      lines.push(`- Total blocking time (approx.): ${formatTime(metrics.totalBlockingTime)}`);
+      lines.push(`- Long tasks: ${metrics.longTasks.count} (${formatTime(metrics.longTasks.duration)} total)`);
+    } else {
+      lines.push('- Not available, the page was loaded before the metrics were observed. Reload the page to collect them.');
+    }
+
+    if (metrics.jsHeap)
+      lines.push('', '#### Memory', `- JS heap: ${formatBytes(metrics.jsHeap.used)} used of ${formatBytes(metrics.jsHeap.total)}`);
+
+    lines.push('', '#### Resources', ...await resourceSummary(tab));
+
+    const browserMetrics = await chromiumMetrics(tab.page);
+    if (browserMetrics.length)
+      lines.push('', '#### Chromium metrics', ...browserMetrics);
+
+    response.addResult(lines.join('\n'));
+  },
+});
+
+const cpuProfileStart = defineTabTool({
+  capability: 'performance',
+
+  schema: {
+    name: 'browser_cpu_profile_start',
+    title: 'Start CPU profile',
+    description: 'Start recording a JavaScript CPU profile of the current page, Chromium only. Stop it with browser_cpu_profile_stop.',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    if (cpuProfiles.has(tab))
+      throw new Error('CPU profile is already being recorded for this tab');
+    const session = await tab.page.context().newCDPSession(tab.page).catch(() => {
+      throw new Error('CPU profiles are only supported in Chromium');
+    });
+    await session.send('Profiler.enable');
+    await session.send('Profiler.start');
+    cpuProfiles.set(tab, session);
+    response.addResult('Started CPU profile');
+  },
+});
+
+const cpuProfileStop = defineTabTool({
+  capability: 'performance',
+
+  schema: {
+    name: 'browser_cpu_profile_stop',
+    title: 'Stop CPU profile',
+    description: 'Stop recording the CPU profile started with browser_cpu_profile_start and save it to a file in the output directory. The file can be opened in the Performance panel of Chrome DevTools.',
+    inputSchema: z.object({
+      filename: z.string().optional().describe('File name to save the profile to. Defaults to `profile-{timestamp}.cpuprofile` if not specified.'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const session = cpuProfiles.get(tab);
+    if (!session)
+      throw new Error('No CPU profile is being recorded for this tab, use browser_cpu_profile_start first');
+    cpuProfiles.delete(tab);
+    const { profile } = await session.send('Profiler.stop');
+    await session.detach().catch(() => {});
+
+    const fileName = await outputFile(tab.context.config, params.filename ?? `profile-${new Date().toISOString()}.cpuprofile`);
+    await fs.promises.writeFile(fileName, JSON.stringify(profile));
+    const duration = (profile.endTime - profile.startTime) / 1000;
+    response.addResult(`Saved CPU profile of ${formatTime(duration)} with ${profile.nodes.length} nodes to ${fileName}`);
+  },
+});
+
+async function resourceSummary(tab: Tab): Promise<string[]> {
+  const byType = new Map<string, { count: number, bytes: number }>();
+  let total = 0;
+  let failed = 0;
+  await Promise.all([...tab.requests().keys()].map(async request => {
+    total++;
+    if (request.failure())
+      failed++;
+    // Sizes are only known once the response has been fully received.
+    const sizes = request.timing().responseEnd >= 0 ? await request.sizes().catch(() => undefined) : undefined;
+    const entry = byType.get(request.resourceType()) ?? { count: 0, bytes: 0 };
+    entry.count++;
+    entry.bytes += sizes ? sizes.responseHeadersSize + sizes.responseBodySize : 0;
+    byType.set(request.resourceType(), entry);
+  }));
+
+  if (!total)
+    return ['- No requests'];
+  const bytes = [...byType.values()].reduce((sum, entry) => sum + entry.bytes, 0);
+  const lines = [`- ${total} request(s), ${formatBytes(bytes)} received${failed ? `, ${failed} failed` : ''}`];
+  for (const [type, entry] of [...byType].sort((a, b) => b[1].bytes - a[1].bytes))
+    lines.push(`- ${type}: ${entry.count} (${formatBytes(entry.bytes)})`);
+  return lines;
+}
+
+async function chromiumMetrics(page: playwright.Page): Promise<string[]> {
+  const session = await page.context().newCDPSession(page).catch(() => undefined);
+  if (!session)
+    return [];
+  try {
+    await session.send('Performance.enable');
+    const { metrics } = await session.send('Performance.getMetrics');
+    return metrics.map(metric => `- ${metric.name}: ${Number.isInteger(metric.value) ? metric.value : metric.value.toFixed(3)}`);
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
+function formatTime(ms: number | undefined): string {
+  return ms === undefined ? 'n/a' : `${Math.round(ms)} ms`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024)
+    return `${bytes} B`;
+  if (bytes < 1024 * 1024)
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default [
+  performanceMetrics,
+  cpuProfileStart,
+  cpuProfileStop,
+];
@@ -0,0 +1,183 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+import * as javascript from '../javascript.js';
+
+import type * as playwright from 'playwright';
+import type { RouteEntry } from '../context.js';
+
+const errorCodes = [
+  'aborted',
+  'accessdenied',
+  'addressunreachable',
+  'blockedbyclient',
+  'blockedbyresponse',
+  'connectionaborted',
+  'connectionclosed',
+  'connectionfailed',
+  'connectionrefused',
+  'connectionreset',
+  'internetdisconnected',
+  'namenotresolved',
+  'timedout',
+  'failed',
+] as const;
+
+const routeSchema = z.object({
+  url: z.string().describe('Glob pattern of the request URLs to intercept, for example "**/api/users"'),
+  action: z.enum(['fulfill', 'abort', 'continue']).describe('"fulfill" responds with a canned response, "abort" fails the request, "continue" sends the request with modified headers'),
+  status: z.number().optional().describe('Response status code for "fulfill", defaults to 200'),
+  headers: z.record(z.string()).optional().describe('Response headers for "fulfill", or request headers to add or override for "continue"'),
+  contentType: z.string().optional().describe('Response content type for "fulfill", for example "application/json"'),
+  body: z.string().optional().describe('Response body for "fulfill"'),
+  path: z.string().optional().describe('Absolute path to a fixture file to respond with for "fulfill"'),
+  errorCode: z.enum(errorCodes).optional().describe('Error code for "abort", defaults to "failed"'),
+}).refine(data => {
+  return !(data.body !== undefined && data.path);
+}, {
+  message: 'Only one of body or path can be specified.',
+  path: ['body', 'path']
+}).refine(data => {
+  return data.action === 'abort' || !data.errorCode;
+}, {
+  message: 'errorCode can only be used with the "abort" action.',
+  path: ['errorCode']
+});
+
+type RouteParams = z.output<typeof routeSchema>;
+
+const route = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_route',
+    title: 'Mock network requests',
+    description: 'Intercept requests matching a URL pattern and fulfill them with a canned response, abort them, or continue them with modified headers. Routes added later take precedence.',
+    inputSchema: routeSchema,
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Simulate backend errors and empty states by mocking requests at runtime',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    const { handler, code, description } = createRouteHandler(params);
+    const entry = await context.addRoute(params.url, description, handler);
+    response.addCode(`// Route ${params.url}: ${description}`);
+    response.addCode(`const ${routeHandlerName(entry)} = ${code};`);
+    response.addCode(`await page.context().route(${javascript.quote(params.url)}, ${routeHandlerName(entry)});`);
+    response.addResult(`Added route ${entry.id}: ${params.url} => ${description}`);
+  },
+});
+
+const routeList = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_route_list',
+    title: 'List network routes',
+    description: 'List network routes added with browser_route',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const routes = context.routes();
+    if (!routes.length) {
+      response.addResult('No routes');
+      return;
+    }
+    for (const entry of routes)
+      response.addResult(`- ${entry.id}: ${entry.pattern} => ${entry.description}`);
+  },
+});
+
+const unroute = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_unroute',
+    title: 'Remove network routes',
+    description: 'Remove network routes added with browser_route. Removes all routes if neither id nor url is provided.',
+    inputSchema: z.object({
+      id: z.number().optional().describe('Id of the route to remove, as reported by browser_route_list'),
+      url: z.string().optional().describe('Remove all routes registered for this URL pattern'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    const removed = await context.removeRoutes(entry => {
+      if (params.id !== undefined && entry.id !== params.id)
+        return false;
+      if (params.url !== undefined && entry.pattern !== params.url)
+        return false;
+      return true;
+    });
+    if (!removed.length)
+      throw new Error('No matching routes found');
+    for (const entry of removed)
+      response.addCode(`await page.context().unroute(${javascript.quote(entry.pattern)}, ${routeHandlerName(entry)});`);
+    response.addResult(`Removed ${removed.length} route(s)`);
+  },
+});
+
+// The generated code keeps a reference to the handler, so that unrouting removes this route only.
+function routeHandlerName(entry: RouteEntry): string {
+  return `routeHandler${entry.id}`;
+}
+
+function createRouteHandler(params: RouteParams): { handler: (route: playwright.Route) => Promise<void>, code: string, description: string } {
+  if (params.action === 'abort') {
+    const errorCode = params.errorCode ?? 'failed';
+    return {
+      handler: route => route.abort(errorCode),
+      code: `route => route.abort(${javascript.quote(errorCode)})`,
+      description: `abort with "${errorCode}"`,
+    };
+  }
+
+  if (params.action === 'continue') {
+    const headers = params.headers ?? {};
+    return {
+      handler: route => route.fallback({ headers: { ...route.request().headers(), ...headers } }),
+      code: `route => route.fallback({ headers: { ...route.request().headers(), ...${javascript.formatObject(headers)} } })`,
+      description: `continue with headers ${Object.keys(headers).join(', ') || '(unchanged)'}`,
+    };
+  }
+
+  const options = {
+    status: params.status ?? 200,
+    headers: params.headers,
+    contentType: params.contentType,
+    body: params.body,
+    path: params.path,
+  };
+  return {
+    handler: route => route.fulfill(options),
+    code: `route => route.fulfill(${javascript.formatObject(options)})`,
+    description: `fulfill with ${options.status}${params.path ? ` from ${params.path}` : ''}`,
+  };
+}
+
+export default [
+  route,
+  routeList,
+  unroute,
+];
@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+import { Response } from '../response.js';
+import { scopeStepsCode } from '../testGenerator.js';
+
+const runSteps = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_run_steps',
+    title: 'Run several steps',
+    description: 'Run a sequence of browser tool calls in order and return a single page snapshot at the end. Stops at the first failing step. Use it to fill forms or perform known sequences of actions in one call.',
+    inputSchema: z.object({
+      steps: z.array(z.object({
+        tool: z.string().describe('Name of the tool to call, for example "browser_type"'),
+        arguments: z.record(z.any()).optional().describe('Arguments of the tool call'),
+      })).min(1).describe('Tool calls to run in order'),
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Batch several actions into a single round trip with one snapshot',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    const tools = params.steps.map(step => {
+      const tool = context.tools.find(tool => tool.schema.name === step.tool);
+      if (!tool)
+        throw new Error(`Tool "${step.tool}" not found`);
+      if (tool.schema.name === 'browser_run_steps')
+        throw new Error('browser_run_steps cannot be nested');
+      return tool;
+    });
+
+    const total = params.steps.length;
+    const codes: string[] = [];
+    for (let i = 0; i < total; ++i) {
+      const step = params.steps[i];
+      const stepResponse = new Response(context, step.tool, step.arguments ?? {});
+      try {
+        await tools[i].handle(context, tools[i].schema.inputSchema.parse(step.arguments ?? {}), stepResponse);
+      } catch (error) {
+        response.setIsError();
+        response.addResult(`Step ${i + 1}/${total} ${step.tool}: failed`);
+        response.addResult(String(error));
+        if (i + 1 < total)
+          response.addResult(`Skipped remaining ${total - i - 1} step(s).`);
+        break;
+      }
+
+      response.addResult(`Step ${i + 1}/${total} ${step.tool}: done`);
+      if (stepResponse.result())
+        response.addResult(stepResponse.result());
+      if (stepResponse.code())
+        codes.push(stepResponse.code());
+      if (!stepResponse.codeIsStandalone())
+        response.setCodeNotStandalone();
+      for (const image of stepResponse.images())
+        response.addImage(image);
+    }
+    for (const code of scopeStepsCode(codes))
+      response.addCode(code);
+
+    if (context.currentTab())
+      response.setIncludeSnapshot();
+  },
+});
+
+export default [
+  runSteps,
+];
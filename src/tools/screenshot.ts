@@ -19,7 +19,7 @@ import { z } from 'zod';
 import { defineTabTool } from './tool.js';
 import * as javascript from '../javascript.js';
 import { outputFile } from '../config.js';
-import { generateLocator } from './utils.js';
+import { frameRoot, frameSchema, generateLocator } from './utils.js';
 
 import type * as playwright from 'playwright';
 
@@ -28,6 +28,7 @@ const screenshotSchema = z.object({
   filename: z.string().optional().describe('File name to save the screenshot to. Defaults to `page-{timestamp}.{png|jpeg}` if not specified.'),
   fullPage: z.boolean().optional().describe('Whether to take a screenshot of the full scrollable page. Cannot be combined with element/ref/locator parameters.'),
   locator: z.string().optional().describe('Playwright locator string to screenshot a specific element (e.g., "#id", ".class", "text=Hello"). Cannot be combined with element/ref/fullPage parameters.'),
+  frame: frameSchema,
   element: z.string().optional().describe('Human-readable element description used to obtain permission to screenshot the element. If not provided, the screenshot will be taken of viewport. If element is provided, ref must be provided too.'),
   ref: z.string().optional().describe('Exact target element reference from the page snapshot. If not provided, the screenshot will be taken of viewport. If ref is provided, element must be provided too.'),
   format: z.enum(['png', 'jpeg']).optional().describe('Image format (defaults to png if raw is true, jpeg otherwise)'),
@@ -48,6 +49,11 @@ const screenshotSchema = z.object({
 }, {
   message: 'locator cannot be combined with element/ref/fullPage parameters.',
   path: ['locator']
+}).refine(data => {
+  return !data.frame?.length || !!data.locator;
+}, {
+  message: 'frame can only be used with locator.',
+  path: ['frame']
 });
 
 const screenshot = defineTabTool({
@@ -96,14 +102,15 @@ const screenshot = defineTabTool({
     response.addCode(`// Screenshot ${screenshotTarget} and save it as ${fileName}`);
 
     // Only get snapshot when element screenshot is needed
+    const { root, code } = frameRoot(tab.page, params.frame);
     let locator = null;
     if (params.ref)
       locator = await tab.refLocator({ element: params.element || '', ref: params.ref });
     else if (params.locator)
-      locator = tab.page.locator(params.locator);
+      locator = root.locator(params.locator);
 
     if (locator && params.locator) {
-      response.addCode(`const elements = await page.locator('${params.locator}').all();`);
+      response.addCode(`const elements = await ${code}.locator('${params.locator}').all();`);
       response.addCode(`const screenshots = await Promise.all(elements.map(el => el.screenshot(${javascript.formatObject(options)})));`);
     } else if (locator) {
       response.addCode(`await ${await generateLocator(locator)}.screenshot(${javascript.formatObject(options)});`);
@@ -116,7 +123,7 @@ const screenshot = defineTabTool({
 
     await tab.waitForCompletion(async () => {
       if (params.locator) {
-        const locatorElement = tab.page.locator(params.locator);
+        const locatorElement = root.locator(params.locator);
         const elements = await locatorElement.all();
 
         if (elements.length === 0) {
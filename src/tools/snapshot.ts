@@ -18,7 +18,7 @@ import { z } from 'zod';
 
 import { defineTabTool, defineTool } from './tool.js';
 import * as javascript from '../javascript.js';
-import { generateLocator } from './utils.js';
+import { frameRoot, frameSchema, generateLocator } from './utils.js';
 
 const snapshot = defineTool({
   capability: 'core',
@@ -38,7 +38,7 @@ const snapshot = defineTool({
     const maxTokens = context.config.truncateSnapshot;
     const pageNum = params.page || 1;
 
-    response.setIncludeSnapshot();
+    response.setIncludeFullSnapshot();
     if (maxTokens > 0)
       response.setTruncateParams({ maxTokens, pageNum });
 
@@ -48,6 +48,7 @@ const snapshot = defineTool({
 const elementSnapshotSchema = z.object({
   locator: z.string().optional().describe('Playwright locator string to capture accessibility snapshot of a specific element (e.g., "#id", ".class", "text=Hello"). Cannot be combined with locators parameter.'),
   locators: z.array(z.string()).optional().describe('Array of Playwright locator strings to capture accessibility snapshots of multiple elements. Cannot be combined with locator parameter.'),
+  frame: frameSchema,
 }).refine(data => {
   const paramCount = [data.locator, data.locators].filter(Boolean).length;
   return paramCount >= 1;
@@ -74,18 +75,19 @@ const elementSnapshot = defineTool({
     const tab = context.currentTabOrDie();
     const isMultipleLocators = params.locators && params.locators.length > 0;
     const isSingleLocator = params.locator;
+    const { root, code } = frameRoot(tab.page, params.frame);
 
     if (isMultipleLocators) {
       response.addCode(`// Capture accessibility snapshots of multiple elements: ${params.locators!.join(', ')}`);
       params.locators!.forEach((loc, index) => {
-        response.addCode(`const snapshot_${index} = await page.locator('${loc}').textContent();`);
+        response.addCode(`const snapshot_${index} = await ${code}.locator('${loc}').textContent();`);
       });
 
       await tab.waitForCompletion(async () => {
         const snapshots = await Promise.all(
           params.locators!.map(async (loc, index) => {
             try {
-              const locator = tab.page.locator(loc);
+              const locator = root.locator(loc);
               const isVisible = await locator.isVisible();
               if (!isVisible)
                 return `### Element ${index + 1} (${loc}):\nElement not visible or not found`;
@@ -118,12 +120,12 @@ const elementSnapshot = defineTool({
       });
     } else if (isSingleLocator) {
       response.addCode(`// Capture accessibility snapshot of element(s) by locator: ${params.locator}`);
-      response.addCode(`const elements = await page.locator('${params.locator}').all();`);
+      response.addCode(`const elements = await ${code}.locator('${params.locator}').all();`);
       response.addCode(`const snapshots = await Promise.all(elements.map(async el => ({ text: await el.textContent(), tag: await el.evaluate(e => e.tagName.toLowerCase()), attrs: await el.evaluate(e => Array.from(e.attributes).reduce((acc, attr) => ({ ...acc, [attr.name]: attr.value }), {})) })));`);
 
       await tab.waitForCompletion(async () => {
         try {
-          const locator = tab.page.locator(params.locator!);
+          const locator = root.locator(params.locator!);
           const elements = await locator.all();
 
           if (elements.length === 0) {
@@ -171,6 +173,28 @@ const elementSnapshot = defineTool({
   }
 });
 
+const snapshotExpand = defineTabTool({
+  capability: 'core',
+  schema: {
+    name: 'browser_snapshot_expand',
+    title: 'Expand snapshot subtree',
+    description: 'Capture the full accessibility snapshot of the element with the given ref, including subtrees that were collapsed in the page snapshot',
+    inputSchema: z.object({
+      ref: z.string().describe('Exact target element reference from the page snapshot, as mentioned in the collapsed placeholder'),
+    }),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Drill into collapsed parts of a large page snapshot',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const subtree = await tab.snapshotSubtree(params.ref);
+    response.addResult(['```yaml', subtree, '```'].join('\n'));
+  },
+});
+
 export const elementSchema = z.object({
   element: z.string().describe('Human-readable element description used to obtain permission to interact with the element'),
   ref: z.string().describe('Exact target element reference from the page snapshot'),
@@ -179,6 +203,7 @@ export const elementSchema = z.object({
 const clickSchema = elementSchema.extend({
   doubleClick: z.boolean().optional().describe('Whether to perform a double click instead of a single click'),
   button: z.enum(['left', 'right', 'middle']).optional().describe('Button to click, defaults to left'),
+  modifiers: z.array(z.enum(['Alt', 'Control', 'ControlOrMeta', 'Meta', 'Shift'])).optional().describe('Modifier keys to hold while clicking, "ControlOrMeta" is Meta on macOS and Control elsewhere'),
 });
 
 const click = defineTabTool({
@@ -196,7 +221,13 @@ const click = defineTabTool({
 
     const locator = await tab.refLocator(params);
     const button = params.button;
-    const buttonAttr = button ? `{ button: '${button}' }` : '';
+    const modifiers = params.modifiers;
+    const attrs: string[] = [];
+    if (button)
+      attrs.push(`button: '${button}'`);
+    if (modifiers?.length)
+      attrs.push(`modifiers: [${modifiers.map(modifier => `'${modifier}'`).join(', ')}]`);
+    const buttonAttr = attrs.length ? `{ ${attrs.join(', ')} }` : '';
 
     if (params.doubleClick) {
       response.addCode(`// Double click ${params.element}`);
@@ -208,9 +239,9 @@ const click = defineTabTool({
 
     await tab.waitForCompletion(async () => {
       if (params.doubleClick)
-        await locator.dblclick({ button });
+        await locator.dblclick({ button, modifiers });
       else
-        await locator.click({ button });
+        await locator.click({ button, modifiers });
     });
   },
 });
@@ -298,6 +329,7 @@ const selectOption = defineTabTool({
 export default [
   snapshot,
   elementSnapshot,
+  snapshotExpand,
   click,
   drag,
   hover,
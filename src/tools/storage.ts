@@ -0,0 +1,303 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { defineTabTool, defineTool } from './tool.js';
+import * as javascript from '../javascript.js';
+import { outputFile } from '../config.js';
+
+import type * as playwright from 'playwright';
+import type { Context } from '../context.js';
+
+type StorageState = Awaited<ReturnType<playwright.BrowserContext['storageState']>>;
+
+const cookieList = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_cookie_list',
+    title: 'List cookies',
+    description: 'List cookies of the browser context',
+    inputSchema: z.object({
+      urls: z.array(z.string()).optional().describe('Only list cookies that apply to these URLs. Lists all cookies if not specified.'),
+      name: z.string().optional().describe('Only list cookies with this name'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params, response) => {
+    const tab = await context.ensureTab();
+    const cookies = (await tab.page.context().cookies(params.urls)).filter(cookie => !params.name || cookie.name === params.name);
+    response.addCode(`await page.context().cookies(${params.urls ? javascript.formatObject(params.urls) : ''});`);
+    if (!cookies.length) {
+      response.addResult('No cookies');
+      return;
+    }
+    for (const cookie of cookies)
+      response.addResult(renderCookie(cookie));
+  },
+});
+
+const cookieSet = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_cookie_set',
+    title: 'Set a cookie',
+    description: 'Add a cookie to the browser context. The cookie is scoped to the current page URL unless url or domain is provided.',
+    inputSchema: z.object({
+      name: z.string().describe('Cookie name'),
+      value: z.string().describe('Cookie value'),
+      url: z.string().optional().describe('URL the cookie applies to. Cannot be combined with domain and path.'),
+      domain: z.string().optional().describe('Domain the cookie applies to, for example ".example.com"'),
+      path: z.string().optional().describe('Path the cookie applies to, defaults to "/" when domain is provided'),
+      expires: z.number().optional().describe('Unix time in seconds when the cookie expires. Session cookie if not specified.'),
+      httpOnly: z.boolean().optional().describe('Whether the cookie is HTTP only'),
+      secure: z.boolean().optional().describe('Whether the cookie is secure'),
+      sameSite: z.enum(['Strict', 'Lax', 'None']).optional().describe('SameSite attribute of the cookie'),
+    }).refine(data => {
+      return !(data.url && (data.domain || data.path));
+    }, {
+      message: 'url cannot be combined with domain and path.',
+      path: ['url']
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    const tab = await context.ensureTab();
+    const cookie: Parameters<playwright.BrowserContext['addCookies']>[0][number] = { ...params };
+    if (cookie.domain)
+      cookie.path ??= '/';
+    else
+      cookie.url ??= tab.page.url();
+
+    response.addCode(`await page.context().addCookies([${javascript.formatObject(cookie)}]);`);
+    await tab.page.context().addCookies([cookie]);
+    response.addResult(`Set cookie ${params.name}`);
+  },
+});
+
+const cookieDelete = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_cookie_delete',
+    title: 'Delete cookies',
+    description: 'Delete cookies matching the given name, domain and path. Deletes all cookies if no filter is provided.',
+    inputSchema: z.object({
+      name: z.string().optional().describe('Only delete cookies with this name'),
+      domain: z.string().optional().describe('Only delete cookies with this domain'),
+      path: z.string().optional().describe('Only delete cookies with this path'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    const tab = await context.ensureTab();
+    const filter = { name: params.name, domain: params.domain, path: params.path };
+    const hasFilter = Object.values(filter).some(value => value !== undefined);
+    response.addCode(`await page.context().clearCookies(${hasFilter ? javascript.formatObject(filter) : ''});`);
+    await tab.page.context().clearCookies(filter);
+    response.addResult(hasFilter ? 'Deleted matching cookies' : 'Deleted all cookies');
+  },
+});
+
+const storageTypeSchema = z.enum(['local', 'session']).describe('Storage to use: "local" for localStorage, "session" for sessionStorage');
+
+const storageGet = defineTabTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_storage_get',
+    title: 'Read web storage',
+    description: 'Read localStorage or sessionStorage of the current origin',
+    inputSchema: z.object({
+      type: storageTypeSchema,
+      key: z.string().optional().describe('Key to read. Returns all entries if not specified.'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const storage = storageName(params.type);
+    if (params.key !== undefined) {
+      response.addCode(`await page.evaluate(() => ${storage}.getItem(${javascript.quote(params.key)}));`);
+      const value = await tab.page.evaluate(({ storage, key }) => (window as any)[storage].getItem(key) as string | null, { storage, key: params.key });
+      response.addResult(value === null ? `Key "${params.key}" not found in ${storage}` : value);
+      return;
+    }
+
+    response.addCode(`await page.evaluate(() => ({ ...${storage} }));`);
+    const entries = await tab.page.evaluate(storage => ({ ...(window as any)[storage] }) as Record<string, string>, storage);
+    response.addResult(JSON.stringify(entries, null, 2));
+  },
+});
+
+const storageSet = defineTabTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_storage_set',
+    title: 'Write web storage',
+    description: 'Set a localStorage or sessionStorage item for the current origin',
+    inputSchema: z.object({
+      type: storageTypeSchema,
+      key: z.string().describe('Key to set'),
+      value: z.string().describe('Value to set'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (tab, params, response) => {
+    const storage = storageName(params.type);
+    response.addCode(`await page.evaluate(() => ${storage}.setItem(${javascript.quote(params.key)}, ${javascript.quote(params.value)}));`);
+    await tab.page.evaluate(({ storage, key, value }) => (window as any)[storage].setItem(key, value), { storage, key: params.key, value: params.value });
+    response.addResult(`Set "${params.key}" in ${storage}`);
+  },
+});
+
+const storageDelete = defineTabTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_storage_delete',
+    title: 'Delete web storage',
+    description: 'Remove a localStorage or sessionStorage item for the current origin, or clear the storage if no key is provided',
+    inputSchema: z.object({
+      type: storageTypeSchema,
+      key: z.string().optional().describe('Key to remove. Clears the storage if not specified.'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (tab, params, response) => {
+    const storage = storageName(params.type);
+    if (params.key !== undefined) {
+      response.addCode(`await page.evaluate(() => ${storage}.removeItem(${javascript.quote(params.key)}));`);
+      await tab.page.evaluate(({ storage, key }) => (window as any)[storage].removeItem(key), { storage, key: params.key });
+      response.addResult(`Removed "${params.key}" from ${storage}`);
+      return;
+    }
+
+    response.addCode(`await page.evaluate(() => ${storage}.clear());`);
+    await tab.page.evaluate(storage => (window as any)[storage].clear(), storage);
+    response.addResult(`Cleared ${storage}`);
+  },
+});
+
+const storageStateSave = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_storage_state_save',
+    title: 'Save storage state',
+    description: 'Save cookies and localStorage of the browser context to a file in the output directory, so that it can be reused in later sessions',
+    inputSchema: z.object({
+      filename: z.string().optional().describe('File name to save the storage state to. Defaults to `storage-state-{timestamp}.json` if not specified.'),
+    }),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Log in once and reuse the authenticated state in later sessions',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    const tab = await context.ensureTab();
+    const fileName = await outputFile(context.config, params.filename ?? `storage-state-${new Date().toISOString()}.json`);
+    response.addCode(`await page.context().storageState(${javascript.formatObject({ path: fileName })});`);
+    await tab.page.context().storageState({ path: fileName });
+    response.addResult(`Saved storage state to ${fileName}`);
+  },
+});
+
+const storageStateLoad = defineTool({
+  capability: 'storage',
+
+  schema: {
+    name: 'browser_storage_state_load',
+    title: 'Load storage state',
+    description: 'Load cookies and localStorage from a storage state file into the running browser context',
+    inputSchema: z.object({
+      path: z.string().describe('The absolute path to the storage state file'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    const tab = await context.ensureTab();
+    const state = JSON.parse(await fs.promises.readFile(params.path, 'utf-8')) as StorageState;
+    await loadStorageState(context, tab.page.context(), state);
+
+    response.addCode(`// Load storage state from ${params.path}, in tests use:`);
+    response.addCode(`// test.use({ storageState: ${javascript.quote(params.path)} });`);
+    response.addResult(`Loaded ${state.cookies?.length ?? 0} cookie(s) and localStorage of ${state.origins?.length ?? 0} origin(s) from ${params.path}`);
+  },
+});
+
+async function loadStorageState(context: Context, browserContext: playwright.BrowserContext, state: StorageState) {
+  if (state.cookies?.length)
+    await browserContext.addCookies(state.cookies);
+  if (!state.origins?.length)
+    return;
+
+  // localStorage can only be written from a document of the same origin, so serve a blank one
+  // in a page that does not show up as a tab.
+  const page = await context.newUntrackedPage();
+  try {
+    await page.route('**/*', route => route.fulfill({ body: '<html></html>', contentType: 'text/html' }));
+    for (const origin of state.origins) {
+      await page.goto(origin.origin);
+      await page.evaluate(items => {
+        for (const { name, value } of items)
+          localStorage.setItem(name, value);
+      }, origin.localStorage);
+    }
+  } finally {
+    await page.close();
+  }
+}
+
+function storageName(type: 'local' | 'session') {
+  return type === 'local' ? 'localStorage' : 'sessionStorage';
+}
+
+function renderCookie(cookie: playwright.Cookie): string {
+  const attributes = [
+    `domain: ${cookie.domain}`,
+    `path: ${cookie.path}`,
+    `expires: ${cookie.expires === -1 ? 'session' : new Date(cookie.expires * 1000).toISOString()}`,
+  ];
+  if (cookie.httpOnly)
+    attributes.push('httpOnly');
+  if (cookie.secure)
+    attributes.push('secure');
+  attributes.push(`sameSite: ${cookie.sameSite}`);
+  return `- ${cookie.name}=${cookie.value} (${attributes.join(', ')})`;
+}
+
+export default [
+  cookieList,
+  cookieSet,
+  cookieDelete,
+  storageGet,
+  storageSet,
+  storageDelete,
+  storageStateSave,
+  storageStateLoad,
+];
@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+import * as javascript from '../javascript.js';
+import { kbpsToBytes, throttlingPresets } from '../networkConditions.js';
+
+import type { NetworkThrottling } from '../networkConditions.js';
+
+const networkOffline = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_network_offline',
+    title: 'Emulate offline mode',
+    description: 'Take the browser offline or bring it back online. Applies to all tabs and browser contexts.',
+    inputSchema: z.object({
+      offline: z.boolean().describe('Whether the network should be offline'),
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Reproduce offline and flaky network behavior',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    await context.ensureTab();
+    await context.setNetworkConditions({ offline: params.offline });
+    response.addCode(`await page.context().setOffline(${params.offline});`);
+    response.addResult(params.offline ? 'Network is offline' : 'Network is online');
+  },
+});
+
+const networkThrottle = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_network_throttle',
+    title: 'Throttle network',
+    description: 'Slow down the network with a preset or a custom latency and throughput. Applies to all tabs and browser contexts. Throughput is only emulated in Chromium, Firefox and WebKit only emulate the latency.',
+    inputSchema: z.object({
+      preset: z.enum(['slow-3g', 'fast-3g', 'off']).optional().describe('Throttling preset, "off" disables throttling'),
+      latency: z.number().min(0).optional().describe('Added round-trip latency in milliseconds'),
+      downloadThroughput: z.number().min(0).optional().describe('Download throughput in kbit/s, unlimited if 0 or not specified'),
+      uploadThroughput: z.number().min(0).optional().describe('Upload throughput in kbit/s, unlimited if 0 or not specified'),
+    }).refine(data => {
+      const custom = data.latency !== undefined || data.downloadThroughput !== undefined || data.uploadThroughput !== undefined;
+      return !!data.preset !== custom;
+    }, {
+      message: 'Either preset or custom latency and throughput must be specified.',
+      path: ['preset']
+    }),
+    type: 'destructive',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Reproduce loading states on slow connections',
+    },
+  },
+
+  handle: async (context, params, response) => {
+    await context.ensureTab();
+    let throttling: NetworkThrottling | undefined;
+    if (params.preset && params.preset !== 'off')
+      throttling = throttlingPresets[params.preset];
+    else if (!params.preset)
+      throttling = { latency: params.latency ?? 0, downloadThroughput: params.downloadThroughput ?? 0, uploadThroughput: params.uploadThroughput ?? 0 };
+    await context.setNetworkConditions({ throttling });
+
+    const { offline } = context.networkConditions.state();
+    if (context.networkConditions.isChromium()) {
+      response.addCode(`const client = await page.context().newCDPSession(page);`);
+      response.addCode(`await client.send('Network.emulateNetworkConditions', ${javascript.formatObject({
+        offline,
+        latency: throttling?.latency ?? 0,
+        downloadThroughput: kbpsToBytes(throttling?.downloadThroughput ?? 0),
+        uploadThroughput: kbpsToBytes(throttling?.uploadThroughput ?? 0),
+      })});`);
+    } else if (throttling) {
+      response.addCode(`await page.context().route('**', async route => {`);
+      response.addCode(`  await new Promise(f => setTimeout(f, ${throttling.latency}));`);
+      response.addCode(`  await route.fallback();`);
+      response.addCode(`});`);
+    }
+    response.addResult(throttling ? `Network throttled to ${describeThrottling(throttling)}` : 'Network throttling disabled');
+  },
+});
+
+const cpuThrottle = defineTool({
+  capability: 'network',
+
+  schema: {
+    name: 'browser_cpu_throttle',
+    title: 'Throttle CPU',
+    description: 'Slow down the CPU of all tabs and browser contexts by the given factor, Chromium only',
+    inputSchema: z.object({
+      rate: z.number().min(1).describe('Slowdown factor, for example 4 for a 4x slowdown. 1 disables throttling.'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params, response) => {
+    await context.ensureTab();
+    await context.setNetworkConditions({ cpuThrottlingRate: params.rate });
+    response.addCode(`const client = await page.context().newCDPSession(page);`);
+    response.addCode(`await client.send('Emulation.setCPUThrottlingRate', { rate: ${params.rate} });`);
+    response.addResult(params.rate === 1 ? 'CPU throttling disabled' : `CPU throttled by ${params.rate}x`);
+  },
+});
+
+function describeThrottling(throttling: NetworkThrottling): string {
+  const throughput = (kbps: number) => kbps ? `${kbps} kbit/s` : 'unlimited';
+  return `${throttling.latency} ms latency, ${throughput(throttling.downloadThroughput)} download, ${throughput(throttling.uploadThroughput)} upload`;
+}
+
+export default [
+  networkOffline,
+  networkThrottle,
+  cpuThrottle,
+];
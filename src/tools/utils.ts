@@ -15,7 +15,10 @@
  */
 
 // @ts-ignore
-import { asLocator } from 'playwright-core/lib/utils';
+import { asLocator, globToRegexPattern, urlMatches } from 'playwright-core/lib/utils';
+
+import { z } from 'zod';
+import * as javascript from '../javascript.js';
 
 import type * as playwright from 'playwright';
 import type { Tab } from '../tab.js';
@@ -91,3 +94,26 @@ export async function generateLocator(locator: playwright.Locator): Promise<stri
 export async function callOnPageNoTrace<T>(page: playwright.Page, callback: (page: playwright.Page) => Promise<T>): Promise<T> {
   return await (page as any)._wrapApiCall(() => callback(page), { internal: true });
 }
+
+export function urlMatchesGlob(url: string, glob: string | undefined): boolean {
+  return urlMatches(undefined, url, glob);
+}
+
+export function globToRegexSource(glob: string): string {
+  return globToRegexPattern(glob);
+}
+
+export const frameSchema = z.array(z.string()).optional().describe('Selectors of the iframes that contain the target elements, outermost first, for example ["#checkout", "iframe[name=\\"card\\"]"]. Use browser_frames to list frames.');
+
+/**
+ * Returns the page or the frame locator to resolve locators against, along with its code.
+ */
+export function frameRoot(page: playwright.Page, frame: string[] | undefined): { root: playwright.Page | playwright.FrameLocator, code: string } {
+  let root: playwright.Page | playwright.FrameLocator = page;
+  let code = 'page';
+  for (const selector of frame ?? []) {
+    root = root.frameLocator(selector);
+    code += `.frameLocator(${javascript.quote(selector)})`;
+  }
+  return { root, code };
+}
@@ -15,7 +15,14 @@
  */
 
 import { z } from 'zod';
-import { defineTool } from './tool.js';
+import { expect } from 'playwright/test';
+import { defineTabTool, defineTool } from './tool.js';
+import { generateLocator, globToRegexSource, urlMatchesGlob } from './utils.js';
+import * as javascript from '../javascript.js';
+
+import type * as playwright from 'playwright';
+
+const timeoutSchema = z.number().optional().describe('Maximum time to wait in milliseconds, defaults to 5000');
 
 const wait = defineTool({
   capability: 'core',
@@ -28,6 +35,7 @@ const wait = defineTool({
       time: z.number().optional().describe('The time to wait in seconds'),
       text: z.string().optional().describe('The text to wait for'),
       textGone: z.string().optional().describe('The text to wait for to disappear'),
+      timeout: timeoutSchema,
     }),
     type: 'readOnly',
   },
@@ -48,13 +56,13 @@ const wait = defineTool({
     const goneLocator = params.textGone ? tab.page.getByText(params.textGone).first() : undefined;
 
     if (goneLocator) {
-      code.push(`await page.getByText(${JSON.stringify(params.textGone)}).first().waitFor({ state: 'hidden' });`);
-      await goneLocator.waitFor({ state: 'hidden' });
+      code.push(`await page.getByText(${JSON.stringify(params.textGone)}).first().waitFor(${inlineOptions({ state: 'hidden', timeout: params.timeout })});`);
+      await goneLocator.waitFor({ state: 'hidden', timeout: params.timeout });
     }
 
     if (locator) {
-      code.push(`await page.getByText(${JSON.stringify(params.text)}).first().waitFor({ state: 'visible' });`);
-      await locator.waitFor({ state: 'visible' });
+      code.push(`await page.getByText(${JSON.stringify(params.text)}).first().waitFor(${inlineOptions({ state: 'visible', timeout: params.timeout })});`);
+      await locator.waitFor({ state: 'visible', timeout: params.timeout });
     }
 
     response.addResult(`Waited for ${params.text || params.textGone || params.time}`);
@@ -62,6 +70,184 @@ const wait = defineTool({
   },
 });
 
+const waitForElement = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_wait_for_element',
+    title: 'Wait for element',
+    description: 'Wait for an element to be attached, detached, visible, hidden, enabled or disabled',
+    inputSchema: z.object({
+      element: z.string().optional().describe('Human-readable element description'),
+      ref: z.string().optional().describe('Exact target element reference from the page snapshot. Cannot be combined with locator.'),
+      locator: z.string().optional().describe('Playwright locator string to target instead of a ref, for example "#id" or "text=Hello". Use it for elements that are not in the snapshot yet.'),
+      state: z.enum(['attached', 'detached', 'visible', 'hidden', 'enabled', 'disabled']).describe('State to wait for'),
+      timeout: timeoutSchema,
+    }).refine(data => {
+      return !!data.ref !== !!data.locator;
+    }, {
+      message: 'Exactly one of ref or locator must be specified.',
+      path: ['ref', 'locator']
+    }),
+    type: 'readOnly',
+    advanced: {
+      isNew: true,
+      enhancementNote: 'Wait for elements, URLs, responses, network idle and custom conditions',
+    },
+  },
+
+  handle: async (tab, params, response) => {
+    const locator = params.ref ? await tab.refLocator({ element: params.element ?? params.ref, ref: params.ref }) : tab.page.locator(params.locator!);
+    const target = params.element ?? params.ref ?? params.locator;
+    const locatorCode = `page.${await generateLocator(locator)}`;
+    if (params.state === 'enabled' || params.state === 'disabled') {
+      const matcher = params.state === 'enabled' ? 'toBeEnabled' : 'toBeDisabled';
+      response.addCode(`await expect(${locatorCode}).${matcher}(${params.timeout !== undefined ? inlineOptions({ timeout: params.timeout }) : ''});`);
+      await expect(locator)[matcher]({ timeout: params.timeout }).catch(() => {
+        throw new Error(`Timed out ${params.timeout ?? 5000}ms waiting for ${target} to be ${params.state}`);
+      });
+    } else {
+      response.addCode(`await ${locatorCode}.waitFor(${inlineOptions({ state: params.state, timeout: params.timeout })});`);
+      await locator.waitFor({ state: params.state, timeout: params.timeout });
+    }
+    response.addResult(`${target} is ${params.state}`);
+    response.setIncludeSnapshot();
+  },
+});
+
+const waitForUrl = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_wait_for_url',
+    title: 'Wait for URL',
+    description: 'Wait for the current page to navigate to a URL matching a glob pattern or regular expression and finish loading',
+    inputSchema: z.object({
+      url: z.string().describe('Glob pattern of the URL, for example "**/checkout/*", or a regular expression source when regex is true'),
+      regex: z.boolean().optional().describe('Whether url is a regular expression, defaults to false'),
+      timeout: timeoutSchema,
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const url = params.regex ? new RegExp(params.url) : params.url;
+    const timeout = params.timeout ?? 5000;
+    response.addCode(`await page.waitForURL(${params.regex ? url.toString() : javascript.quote(params.url)}${params.timeout !== undefined ? `, ${inlineOptions({ timeout })}` : ''});`);
+    await tab.page.waitForURL(url, { timeout });
+    response.addResult(`Page URL is ${tab.page.url()}`);
+    response.setIncludeSnapshot();
+  },
+});
+
+const waitForResponse = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_wait_for_response',
+    title: 'Wait for network response',
+    description: 'Wait for a new network response matching a URL pattern and optionally a status and method',
+    inputSchema: z.object({
+      url: z.string().describe('Glob pattern of the response URL, for example "**/api/users"'),
+      status: z.number().optional().describe('Expected HTTP status code'),
+      method: z.string().optional().describe('Expected HTTP method of the request, for example "POST"'),
+      includeReceived: z.boolean().optional().describe('Whether to return a matching response already received on the current page instead of waiting for a new one, defaults to false'),
+      timeout: timeoutSchema,
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    const method = params.method?.toUpperCase();
+    const matches = (r: playwright.Response) => {
+      if (!urlMatchesGlob(r.url(), params.url))
+        return false;
+      if (params.status !== undefined && r.status() !== params.status)
+        return false;
+      return !method || r.request().method() === method;
+    };
+
+    // Start listening before anything else, responses arriving from now on are new.
+    const responsePromise = tab.page.waitForResponse(matches, { timeout: params.timeout ?? 5000 });
+    const received = params.includeReceived ? [...tab.requests().values()].find(r => r && matches(r)) : undefined;
+    if (received) {
+      responsePromise.catch(() => {});
+      response.addCode(`// Response for ${params.url} was already received`);
+      response.addResult(`Received ${received.status()} response for ${received.request().method()} ${received.url()}`);
+      return;
+    }
+
+    const conditions: string[] = [];
+    if (params.status !== undefined)
+      conditions.push(`response.status() === ${params.status}`);
+    if (method)
+      conditions.push(`response.request().method() === ${javascript.quote(method)}`);
+    const timeoutArg = params.timeout !== undefined ? `, ${inlineOptions({ timeout: params.timeout })}` : '';
+    if (conditions.length)
+      response.addCode(`await page.waitForResponse(response => ${[`new RegExp(${javascript.quote(globToRegexSource(params.url))}).test(response.url())`, ...conditions].join(' && ')}${timeoutArg});`);
+    else
+      response.addCode(`await page.waitForResponse(${javascript.quote(params.url)}${timeoutArg});`);
+
+    const result = await responsePromise;
+    response.addResult(`Received ${result.status()} response for ${result.request().method()} ${result.url()}`);
+  },
+});
+
+const waitForNetworkIdle = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_wait_for_network_idle',
+    title: 'Wait for network idle',
+    description: 'Wait until the page has had no network connections for at least 500 ms',
+    inputSchema: z.object({
+      timeout: timeoutSchema,
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    response.addCode(`await page.waitForLoadState('networkidle'${params.timeout !== undefined ? `, ${inlineOptions({ timeout: params.timeout })}` : ''});`);
+    await tab.page.waitForLoadState('networkidle', { timeout: params.timeout ?? 5000 });
+    response.addResult('Network is idle');
+    response.setIncludeSnapshot();
+  },
+});
+
+const waitForFunction = defineTabTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_wait_for_function',
+    title: 'Wait for JavaScript condition',
+    description: 'Wait for a JavaScript function evaluated in the page to return a truthy value, polling on every animation frame',
+    inputSchema: z.object({
+      function: z.string().describe('JavaScript function to poll: () => { /* code */ }'),
+      timeout: timeoutSchema,
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (tab, params, response) => {
+    response.addCode(`await page.waitForFunction(${params.function}${params.timeout !== undefined ? `, undefined, ${inlineOptions({ timeout: params.timeout })}` : ''});`);
+    const handle = await tab.page.waitForFunction(`(${params.function})()`, undefined, { timeout: params.timeout ?? 5000 });
+    const value = await handle.jsonValue().catch(() => undefined);
+    await handle.dispose();
+    response.addResult(`Function returned ${JSON.stringify(value) ?? 'a truthy value'}`);
+    response.setIncludeSnapshot();
+  },
+});
+
+function inlineOptions(options: Record<string, string | number | undefined>): string {
+  const entries = Object.entries(options).filter(([, value]) => value !== undefined);
+  return `{ ${entries.map(([key, value]) => `${key}: ${typeof value === 'string' ? javascript.quote(value) : value}`).join(', ')} }`;
+}
+
 export default [
   wait,
+  waitForElement,
+  waitForUrl,
+  waitForResponse,
+  waitForNetworkIdle,
+  waitForFunction,
 ];
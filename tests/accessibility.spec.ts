@@ -0,0 +1,106 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures.js';
+
+test('browser_accessibility_audit', async ({ client, server }) => {
+  server.setContent('/', `
+    <title>Shop</title>
+    <h1>Products</h1>
+    <h3>Shoes</h3>
+    <img src="shoe.png">
+    <button></button>
+    <input type="text">
+    <p style="color: #bbb">Low contrast</p>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_accessibility_audit',
+  });
+  expect(result).toContainTextContent(`Found 6 accessibility violation(s)`);
+  expect(result).toContainTextContent(`#### Critical (3)
+- [image-alt] Images must have alternative text: ref=e4 \`<img src="shoe.png">\`
+- [button-name] Buttons must have discernible text: ref=e5 \`<button>\`
+- [label] Form elements must have labels: ref=e6 \`<input type="text">\``);
+  expect(result).toContainTextContent(`#### Serious (2)
+- [html-has-lang] The <html> element must have a lang attribute: \`<html>\`
+- [color-contrast] Text must have a contrast ratio of at least 4.5:1, found 1.92:1: ref=e7 \`<p style="color: #bbb">\``);
+  expect(result).toContainTextContent(`#### Moderate (1)
+- [heading-order] Heading levels should only increase by one, found h3 after h1: ref=e3 \`<h3>\``);
+});
+
+test('browser_accessibility_audit subtree', async ({ client, server }) => {
+  server.setContent('/', `
+    <nav><a href="/home"></a></nav>
+    <main><img src="logo.png" alt="Logo"></main>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_accessibility_audit',
+    arguments: { element: 'Navigation', ref: 'e2' },
+  });
+  expect(result).toContainTextContent(`Found 1 accessibility violation(s)`);
+  expect(result).toContainTextContent(`- [link-name] Links must have discernible text: ref=e3 \`<a href="/home">\``);
+  expect(result).not.toContainTextContent(`document-title`);
+
+  expect(await client.callTool({
+    name: 'browser_accessibility_audit',
+    arguments: { element: 'Main', ref: 'e4' },
+  })).toContainTextContent(`No accessibility violations found`);
+});
+
+test('browser_accessibility_audit saves report', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({ config: { outputDir } });
+  server.setContent('/', `<html lang="en"><title>Report</title><button></button></html>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_accessibility_audit',
+    arguments: { filename: 'audit.json' },
+  })).toContainTextContent(`Saved report to ${outputDir}/audit.json`);
+
+  const report = JSON.parse(await fs.promises.readFile(`${outputDir}/audit.json`, 'utf-8'));
+  expect(report).toEqual(expect.objectContaining({
+    url: server.PREFIX,
+    title: 'Report',
+    scope: null,
+    violations: [{
+      rule: 'button-name',
+      impact: 'critical',
+      description: 'Buttons must have discernible text',
+      html: '<button>',
+      ref: 'e2',
+    }],
+  }));
+});
@@ -19,16 +19,27 @@ import { test, expect } from './fixtures.js';
 test('test snapshot tool list', async ({ client }) => {
   const { tools } = await client.listTools();
   expect(new Set(tools.map(t => t.name))).toEqual(new Set([
+    'browser_accessibility_audit',
     'browser_click',
     'browser_console_messages',
+    'browser_context_close',
+    'browser_context_list',
+    'browser_context_new',
+    'browser_context_select',
+    'browser_dialog_history',
+    'browser_dialog_policy_clear',
+    'browser_dialog_policy_set',
     'browser_drag',
     'browser_element_snapshot',
     'browser_evaluate',
     'browser_file_upload',
+    'browser_fill_form',
+    'browser_frames',
     'browser_get_html_content',
     'browser_get_outer_html',
     'browser_handle_dialog',
     'browser_hover',
+    'browser_insert_text',
     'browser_select_option',
     'browser_type',
     'browser_close',
@@ -37,15 +48,23 @@ test('test snapshot tool list', async ({ client }) => {
     'browser_navigate_forward',
     'browser_navigate',
     'browser_network_requests',
+    'browser_network_request_details',
     'browser_press_key',
     'browser_resize',
+    'browser_run_steps',
     'browser_snapshot',
+    'browser_snapshot_expand',
     'browser_tab_close',
     'browser_tab_list',
     'browser_tab_new',
     'browser_tab_select',
     'browser_take_screenshot',
     'browser_wait_for',
+    'browser_wait_for_element',
+    'browser_wait_for_function',
+    'browser_wait_for_network_idle',
+    'browser_wait_for_response',
+    'browser_wait_for_url',
     'get_video_path',
     'list_video_files',
     'save_video',
@@ -59,6 +78,78 @@ test('test capabilities (pdf)', async ({ startClient }) => {
   const { tools } = await client.listTools();
   const toolNames = tools.map(t => t.name);
   expect(toolNames).toContain('browser_pdf_save');
+  expect(toolNames).toContain('browser_pdf_extract_text');
+});
+
+test('test capabilities (network)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=network'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_route');
+  expect(toolNames).toContain('browser_route_list');
+  expect(toolNames).toContain('browser_unroute');
+  expect(toolNames).toContain('browser_har_record');
+  expect(toolNames).toContain('browser_har_replay');
+  expect(toolNames).toContain('browser_network_offline');
+  expect(toolNames).toContain('browser_network_throttle');
+  expect(toolNames).toContain('browser_cpu_throttle');
+});
+
+test('test capabilities (storage)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=storage'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_cookie_list');
+  expect(toolNames).toContain('browser_storage_get');
+  expect(toolNames).toContain('browser_storage_state_save');
+  expect(toolNames).toContain('browser_storage_state_load');
+});
+
+test('test capabilities (testing)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=testing'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_expect_visible');
+  expect(toolNames).toContain('browser_expect_text');
+  expect(toolNames).toContain('browser_expect_value');
+  expect(toolNames).toContain('browser_expect_url');
+  expect(toolNames).toContain('browser_expect_count');
+  expect(toolNames).toContain('browser_generate_test');
+});
+
+test('test capabilities (performance)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=performance'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_performance_metrics');
+  expect(toolNames).toContain('browser_cpu_profile_start');
+  expect(toolNames).toContain('browser_cpu_profile_stop');
+});
+
+test('test capabilities (emulation)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=emulation'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_set_geolocation');
+  expect(toolNames).toContain('browser_grant_permissions');
+  expect(toolNames).toContain('browser_clear_permissions');
+  expect(toolNames).toContain('browser_emulate_media');
+  expect(toolNames).toContain('browser_set_locale');
+  expect(toolNames).toContain('browser_clock_install');
+  expect(toolNames).toContain('browser_clock_set_time');
+  expect(toolNames).toContain('browser_clock_fast_forward');
+  expect(toolNames).toContain('browser_clock_pause');
+  expect(toolNames).toContain('browser_clock_resume');
 });
 
 test('test capabilities (vision)', async ({ startClient }) => {
@@ -82,3 +173,16 @@ test('support for legacy --vision option', async ({ startClient }) => {
   expect(toolNames).toContain('browser_mouse_click_xy');
   expect(toolNames).toContain('browser_mouse_drag_xy');
 });
+
+test('test capabilities (downloads)', async ({ startClient }) => {
+  const { client } = await startClient({
+    args: ['--caps=downloads'],
+  });
+  const { tools } = await client.listTools();
+  const toolNames = tools.map(t => t.name);
+  expect(toolNames).toContain('browser_download_list');
+  expect(toolNames).toContain('browser_download_wait');
+  expect(toolNames).toContain('browser_download_cancel');
+  expect(toolNames).toContain('browser_download_read');
+  expect(toolNames).toContain('browser_download_save_as');
+});
@@ -117,3 +117,25 @@ test('browser_click (right)', async ({ client, server }) => {
   expect(result).toContainTextContent(`await page.getByRole('button', { name: 'Menu' }).click({ button: 'right' });`);
   expect(result).toContainTextContent(`- button "Right clicked"`);
 });
+
+test('browser_click (modifiers)', async ({ client, server }) => {
+  server.setContent('/', `
+    <button onclick="this.textContent = [event.shiftKey && 'Shift', event.altKey && 'Alt'].filter(Boolean).join('+') + ' clicked'">Select</button>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_click',
+    arguments: {
+      element: 'Select',
+      ref: 'e2',
+      modifiers: ['Shift', 'Alt'],
+    },
+  });
+  expect(result).toContainTextContent(`await page.getByRole('button', { name: 'Select' }).click({ modifiers: ['Shift', 'Alt'] });`);
+  expect(result).toContainTextContent(`- button "Shift+Alt clicked"`);
+});
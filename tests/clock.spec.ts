@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { test, expect } from './fixtures.js';
+
+test('browser_clock tools', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=emulation'] });
+  server.setContent('/', `
+    <div id="time"></div>
+    <script>
+      const render = () => time.textContent = new Date().toISOString();
+      render();
+      setInterval(render, 1000);
+    </script>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_clock_install',
+    arguments: { time: '2024-02-02T10:00:00Z' },
+  })).toHaveTextContent(`### Result
+Installed fake clock at 2024-02-02T10:00:00Z
+
+### Ran Playwright code
+\`\`\`js
+await page.clock.install({
+  time: '2024-02-02T10:00:00Z'
+});
+\`\`\``);
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const paused = await client.callTool({
+    name: 'browser_clock_pause',
+    arguments: { time: '2024-02-02T11:00:00Z' },
+  });
+  expect(paused).toContainTextContent(`Paused clock at 2024-02-02T11:00:00Z`);
+  expect(paused).toContainTextContent(`await page.clock.pauseAt('2024-02-02T11:00:00Z');`);
+  expect(paused).toContainTextContent(`2024-02-02T11:00:00.000Z`);
+
+  const advanced = await client.callTool({
+    name: 'browser_clock_fast_forward',
+    arguments: { ticks: '01:00' },
+  });
+  expect(advanced).toContainTextContent(`Advanced clock by 01:00`);
+  expect(advanced).toContainTextContent(`await page.clock.fastForward('01:00');`);
+  expect(advanced).toContainTextContent(`2024-02-02T11:01:00.000Z`);
+
+  expect(await client.callTool({
+    name: 'browser_clock_fast_forward',
+    arguments: { ticks: 2000, runTimers: true },
+  })).toContainTextContent(`await page.clock.runFor(2000);`);
+
+  expect(await client.callTool({
+    name: 'browser_clock_resume',
+  })).toContainTextContent(`Resumed clock`);
+});
+
+test('browser_clock_set_time', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=emulation'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_clock_set_time',
+    arguments: { time: '2030-01-01T00:00:00Z', fixed: true },
+  })).toContainTextContent(`await page.clock.setFixedTime('2030-01-01T00:00:00Z');`);
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: '() => new Date().toISOString()' },
+  })).toContainTextContent(`"2030-01-01T00:00:00.000Z"`);
+});
@@ -0,0 +1,68 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect, test } from './fixtures.js';
+
+const listPage = `
+  <h1>Products</h1>
+  <ul>
+    ${Array.from({ length: 100 }, (_, i) => `<li>Product ${i}</li>`).join('')}
+  </ul>
+`;
+
+test('collapse long lists with --truncate-strategy=collapse', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--truncate-strategy=collapse', '--truncate-snapshot=500'] });
+  server.setContent('/', listPage, 'text/html');
+
+  const response = await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  expect(response).toContainTextContent(`- heading "Products" [level=1] [ref=e2]`);
+  expect(response).toContainTextContent(`Product 0`);
+  expect(response).toContainTextContent(/- \.\.\. \d+ more listitem elements collapsed, use browser_snapshot_expand with ref=e3/);
+  expect(response).not.toContainTextContent(`Product 99`);
+  expect(response).not.toContainTextContent(`Page 1 of`);
+});
+
+test('browser_snapshot_expand', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--truncate-strategy=collapse', '--truncate-snapshot=500'] });
+  server.setContent('/', listPage, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const response = await client.callTool({
+    name: 'browser_snapshot_expand',
+    arguments: { ref: 'e3' },
+  });
+  expect(response).toContainTextContent(`- list [ref=e3]:`);
+  expect(response).toContainTextContent(`Product 99`);
+});
+
+test('browser_snapshot_expand (unknown ref)', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_snapshot_expand',
+    arguments: { ref: 'e100' },
+  })).toHaveTextContent(`Error: Ref e100 not found in the current page snapshot. Try capturing new snapshot.`);
+});
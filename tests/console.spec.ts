@@ -95,3 +95,99 @@ test('recent console messages', async ({ client, server }) => {
 ### New console messages
 - [LOG] Hello, world! @`);
 });
+
+test('browser_console_messages filters', async ({ client, server }) => {
+  server.setContent('/', `
+    <!DOCTYPE html>
+    <html>
+      <script>
+        console.debug("Debug details");
+        console.log("Loaded user 1");
+        console.warn("Deprecated API");
+        console.error("Failed to load user 2");
+      </script>
+      <button onclick="console.log('Clicked'); throw new Error('Click failed')">Click me</button>
+    </html>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+    arguments: { level: 'warning' },
+  })).toHaveTextContent([
+    '### Result',
+    `[WARNING] Deprecated API @ ${server.PREFIX}:6`,
+    `[ERROR] Failed to load user 2 @ ${server.PREFIX}:7`,
+  ].join('\n'));
+
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+    arguments: { filter: 'user \\d', regex: true, max: 1 },
+  })).toHaveTextContent([
+    '### Result',
+    `... 1 earlier message(s) omitted`,
+    `[ERROR] Failed to load user 2 @ ${server.PREFIX}:7`,
+  ].join('\n'));
+
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Click me', ref: 'e2' },
+  });
+
+  const recent = await client.callTool({
+    name: 'browser_console_messages',
+    arguments: { sinceLastCall: true },
+  });
+  expect(recent).toContainTextContent(`[LOG] Clicked @ ${server.PREFIX}`);
+  expect(recent).toContainTextContent(`Error: Click failed`);
+  expect(recent).not.toContainTextContent(`Deprecated API`);
+
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+    arguments: { sinceLastCall: true, clear: true },
+  })).toHaveTextContent(`### Result
+No console messages`);
+
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+  })).toHaveTextContent(`### Result
+No console messages`);
+});
+
+test('browser_console_messages clear', async ({ client, server }) => {
+  server.setContent('/', `
+    <!DOCTYPE html>
+    <html>
+      <script>
+        console.log("Loaded user 1");
+        console.error("Failed to load user 2");
+      </script>
+    </html>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+    arguments: { filter: '(', regex: true, clear: true },
+  })).toContainTextContent(`Invalid regular expression`);
+
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+    arguments: { level: 'error', clear: true },
+  })).toHaveTextContent([
+    '### Result',
+    `[ERROR] Failed to load user 2 @ ${server.PREFIX}:5`,
+  ].join('\n'));
+
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+  })).toHaveTextContent(`### Result
+No console messages`);
+});
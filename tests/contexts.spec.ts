@@ -0,0 +1,238 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures.js';
+
+test('browser_context_new', async ({ client, server }) => {
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  })).toContainTextContent('Hello, world!');
+
+  expect(await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  })).toHaveTextContent(`### Result
+Created browser context "admin"
+
+### Ran Playwright code
+\`\`\`js
+// Create browser context "admin"
+const context = await browser.newContext({});
+\`\`\`
+
+### Open tabs
+- Browser context "default":
+  - 0: (current) [Title] (${server.HELLO_WORLD})
+- Browser context "admin" (current):
+  - No open tabs
+`);
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent(`### Open tabs
+- Browser context "default":
+  - 0: (current) [Title] (${server.HELLO_WORLD})
+- Browser context "admin" (current):
+  - 0: (current) [] (${server.PREFIX})
+`);
+});
+
+test('browser_context_new rejects duplicate names', async ({ client }) => {
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  });
+  expect(await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  })).toHaveTextContent('Error: Browser context "admin" already exists');
+});
+
+test('browser_context_new with device', async ({ client, server }) => {
+  server.setContent('/', `<body></body><script>document.body.textContent = window.innerWidth + 'x' + window.innerHeight;</script>`, 'text/html');
+
+  const result = await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'mobile', device: 'iPhone 15', viewport: { width: 400, height: 800 } },
+  });
+  expect(result).toContainTextContent(`const context = await browser.newContext({ ...devices['iPhone 15'], ...{
+  viewport: {
+  height: 800,
+  width: 400
+}
+} });`);
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent('400x800');
+
+  expect(await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'unknown', device: 'Unknown device' },
+  })).toHaveTextContent('Error: Device "Unknown device" not found');
+});
+
+test('browser_context_new with device and no viewport', async ({ client, server }) => {
+  server.setContent('/', `<body></body><script>document.body.textContent = window.innerWidth + 'x' + window.innerHeight + ' ' + navigator.userAgent;</script>`, 'text/html');
+
+  const result = await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'mobile', device: 'iPhone 15' },
+  });
+  expect(result).toContainTextContent(`const context = await browser.newContext(devices['iPhone 15']);`);
+
+  const navigateResult = await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  expect(navigateResult).toContainTextContent('393x659');
+  expect(navigateResult).toContainTextContent('iPhone OS 17_5');
+});
+
+test('browser contexts do not share cookies', async ({ client, server }) => {
+  server.setContent('/', `<body></body><script>document.body.textContent = document.cookie || 'no cookies'; document.cookie = 'user=alice';</script>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent('user=alice');
+
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'bob' },
+  });
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent('no cookies');
+});
+
+test('browser_context_select and browser_context_list', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_select',
+    arguments: { name: 'default' },
+  })).toContainTextContent(`- Page URL: ${server.HELLO_WORLD}`);
+
+  expect(await client.callTool({
+    name: 'browser_context_list',
+  })).toHaveTextContent(`### Result
+- default (current)
+- admin
+
+### Open tabs
+- Browser context "default" (current):
+  - 0: (current) [Title] (${server.HELLO_WORLD})
+- Browser context "admin":
+  - No open tabs
+`);
+
+  expect(await client.callTool({
+    name: 'browser_context_select',
+    arguments: { name: 'missing' },
+  })).toHaveTextContent('Error: Browser context "missing" not found');
+});
+
+test('browser_context_close', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_context_close',
+    arguments: { name: 'admin' },
+  })).toHaveTextContent(`### Result
+Closed browser context "admin"
+
+### Ran Playwright code
+\`\`\`js
+await context.close();
+\`\`\`
+
+### Open tabs
+- 0: (current) [Title] (${server.HELLO_WORLD})
+`);
+
+  expect(await client.callTool({
+    name: 'browser_context_close',
+    arguments: { name: 'admin' },
+  })).toHaveTextContent('Error: Browser context "admin" not found');
+});
+
+test('browser_context_new does not inherit storage state and HAR recording', async ({ startClient, server }, testInfo) => {
+  const storageStatePath = testInfo.outputPath('storage-state.json');
+  await fs.promises.writeFile(storageStatePath, JSON.stringify({
+    cookies: [{ name: 'user', value: 'alice', domain: 'localhost', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'Lax' }],
+    origins: [],
+  }));
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: ['--isolated', `--storage-state=${storageStatePath}`, '--save-har'],
+    config: { outputDir },
+  });
+  const content = `<body></body><script>document.body.textContent = document.cookie || 'no cookies';</script>`;
+  server.setContent('/', content, 'text/html');
+  server.setContent('/fresh', content, 'text/html');
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent('user=alice');
+
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'fresh' },
+  });
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX + 'fresh' },
+  })).toContainTextContent('no cookies');
+
+  await client.callTool({
+    name: 'browser_close',
+  });
+  const har = JSON.parse(await fs.promises.readFile(`${outputDir}/session.har`, 'utf-8'));
+  const urls = har.log.entries.map((entry: any) => entry.request.url);
+  expect(urls).toContain(server.PREFIX);
+  expect(urls).not.toContain(server.PREFIX + 'fresh');
+});
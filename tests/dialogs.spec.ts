@@ -14,6 +14,10 @@
  * limitations under the License.
  */
 
+import fs from 'node:fs';
+import url from 'node:url';
+import path from 'node:path';
+import { spawnSync } from 'node:child_process';
 import { test, expect } from './fixtures.js';
 
 test('alert dialog', async ({ client, server }) => {
@@ -247,3 +251,141 @@ await page.getByRole('button', { name: 'Button' }).click();
 \`\`\`yaml
 - button "Button"`);
 });
+
+test('browser_dialog_policy_set', async ({ client, server }) => {
+  server.setContent('/', `
+    <button onclick="document.body.append(confirm('Delete item?') ? 'deleted' : 'kept')">Delete</button>
+    <button onclick="document.body.append(prompt('Name?'))">Rename</button>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_dialog_policy_set',
+    arguments: { action: 'accept', type: 'confirm', message: '^Delete' },
+  })).toHaveTextContent(`### Result
+Dialog policies:
+- accept "confirm" dialogs with message matching /^Delete/
+
+### Ran Playwright code
+\`\`\`js
+page.on('dialog', dialog => dialog.type() === 'confirm' && new RegExp('^Delete').test(dialog.message()) && dialog.accept());
+\`\`\``);
+
+  expect(await client.callTool({
+    name: 'browser_dialog_policy_set',
+    arguments: { action: 'accept', type: 'prompt', promptText: 'Report' },
+  })).toContainTextContent(`Dialog policies:
+- accept "prompt" dialogs entering "Report" into prompts
+- accept "confirm" dialogs with message matching /^Delete/`);
+
+  for (let i = 0; i < 2; i++) {
+    const response = await client.callTool({
+      name: 'browser_click',
+      arguments: { element: 'Delete button', ref: 'e2' },
+    });
+    expect(response).not.toContainTextContent('### Modal state');
+    expect(response).toContainTextContent(`### Handled dialogs
+- "confirm" dialog with message "Delete item?" accepted by policy`);
+  }
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Rename button', ref: 'e3' },
+  })).toContainTextContent(`- "prompt" dialog with message "Name?" accepted with "Report" by policy`);
+
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+  })).toContainTextContent(`- text: deleteddeletedReport`);
+
+  expect(await client.callTool({
+    name: 'browser_dialog_history',
+    arguments: { clear: true },
+  })).toHaveTextContent(`### Result
+- "confirm" dialog with message "Delete item?" accepted by policy on ${server.PREFIX}
+- "confirm" dialog with message "Delete item?" accepted by policy on ${server.PREFIX}
+- "prompt" dialog with message "Name?" accepted with "Report" by policy on ${server.PREFIX}`);
+  expect(await client.callTool({
+    name: 'browser_dialog_history',
+  })).toHaveTextContent(`### Result
+No dialogs`);
+
+  expect(await client.callTool({
+    name: 'browser_dialog_policy_clear',
+  })).toContainTextContent(`Removed 2 dialog policy(s)`);
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Delete button', ref: 'e2' },
+  })).toContainTextContent(`### Modal state
+- ["confirm" dialog with message "Delete item?"]: can be handled by the "browser_handle_dialog" tool`);
+});
+
+test('dialog history records manually handled dialogs', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="alert('Alert')">Button</button>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Button', ref: 'e2' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_dialog_history',
+  })).toContainTextContent(`- "alert" dialog with message "Alert" is open on ${server.PREFIX}`);
+
+  await client.callTool({
+    name: 'browser_handle_dialog',
+    arguments: { accept: false },
+  });
+  expect(await client.callTool({
+    name: 'browser_dialog_history',
+  })).toHaveTextContent(`### Result
+- "alert" dialog with message "Alert" dismissed on ${server.PREFIX}`);
+});
+
+test('--dialog-policy accepts beforeunload dialogs', async ({ startClient, server, mcpBrowser }) => {
+  test.skip(!['chrome', 'msedge', 'chromium'].includes(mcpBrowser!), 'beforeunload message is browser-specific');
+  const { client } = await startClient({ args: ['--dialog-policy=accept'] });
+  server.setContent('/', `
+    <script>window.addEventListener('beforeunload', event => event.preventDefault())</script>
+    <button onclick="document.body.append(confirm('Sure?') ? 'yes' : 'no')">Button</button>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Button', ref: 'e2' },
+  })).toContainTextContent(`### Handled dialogs
+- "confirm" dialog with message "Sure?" accepted by policy`);
+
+  // The click above gives the page the user activation needed for beforeunload dialogs.
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  })).toContainTextContent(`### Handled dialogs
+- "beforeunload" dialog accepted by policy`);
+  expect(await client.callTool({
+    name: 'browser_dialog_history',
+  })).toContainTextContent(`- "beforeunload" dialog accepted by policy on ${server.PREFIX}`);
+});
+
+// NOTE: Can be removed when we drop Node.js 18 support and changed to import.meta.filename.
+const __filename = url.fileURLToPath(import.meta.url);
+
+test('rejects invalid dialog policy message patterns', async ({}, testInfo) => {
+  const configFile = testInfo.outputPath('config.json');
+  await fs.promises.writeFile(configFile, JSON.stringify({ dialogPolicies: [{ action: 'accept', message: '(unclosed' }] }));
+  const result = spawnSync('node', [
+    path.join(__filename, '../../cli.js'), `--config=${configFile}`,
+  ]);
+  expect(result.error).toBeUndefined();
+  expect(result.status).toBe(1);
+  expect(result.stderr.toString()).toContain('Invalid dialog policy message pattern "(unclosed"');
+});
@@ -0,0 +1,192 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { test, expect } from './fixtures.js';
+
+test('browser_download_list, browser_download_read and browser_download_save_as', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    config: { outputDir, capabilities: ['downloads'] },
+  });
+  server.setContent('/', `<a href="/report.csv" download="report.csv">Download</a>`, 'text/html');
+  server.setContent('/report.csv', 'name,total\nInvoice 42,99', 'text/csv');
+
+  expect(await client.callTool({
+    name: 'browser_download_list',
+  })).toHaveTextContent(`### Result
+No downloads`);
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Download link', ref: 'e2' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_download_wait',
+  })).toContainTextContent(`- report.csv (finished, 24 bytes, text/csv), saved to ${outputDir}/report.csv`);
+
+  expect(await client.callTool({
+    name: 'browser_download_list',
+  })).toHaveTextContent(`### Result
+- report.csv (finished, 24 bytes, text/csv), saved to ${outputDir}/report.csv`);
+
+  expect(await client.callTool({
+    name: 'browser_download_read',
+    arguments: { download: 'report.csv' },
+  })).toContainTextContent(`### Result
+name,total
+Invoice 42,99`);
+
+  expect(await client.callTool({
+    name: 'browser_download_save_as',
+    arguments: { download: 'report.csv', filename: 'invoices.csv' },
+  })).toHaveTextContent(`### Result
+Moved download of report.csv to ${outputDir}/invoices.csv
+
+### Ran Playwright code
+\`\`\`js
+await download.saveAs('${outputDir}/invoices.csv');
+\`\`\``);
+  expect(await client.callTool({
+    name: 'browser_download_list',
+  })).toContainTextContent(`saved to ${outputDir}/invoices.csv`);
+});
+
+test('browser_download_read rejects binary files', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=downloads'] });
+  server.setContent('/', `<a href="/archive.zip" download="archive.zip">Download</a>`, 'text/html');
+  server.setContent('/archive.zip', 'PK', 'application/zip');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Download link', ref: 'e2' },
+  });
+  await client.callTool({
+    name: 'browser_download_wait',
+  });
+
+  expect(await client.callTool({
+    name: 'browser_download_read',
+  })).toContainTextContent(`Error: archive.zip is not a text file (application/zip)`);
+});
+
+test('browser_download_cancel', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=downloads'] });
+  server.setContent('/', `<a href="/large.bin" download="large.bin">Download</a>`, 'text/html');
+  server.route('/large.bin', (req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+    // Never finish the response, so that the download stays in progress.
+    res.write('0'.repeat(1024));
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Download link', ref: 'e2' },
+  });
+  await expect.poll(() => client.callTool({ name: 'browser_download_list' })).toContainTextContent(`- large.bin (in progress, application/octet-stream)`);
+
+  expect(await client.callTool({
+    name: 'browser_download_cancel',
+    arguments: { download: 'large.bin' },
+  })).toContainTextContent(`Canceled download of large.bin`);
+  expect(await client.callTool({
+    name: 'browser_download_list',
+  })).toContainTextContent(`- large.bin (canceled, application/octet-stream)`);
+});
+
+test('browser_download_wait times out', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=downloads'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_download_wait',
+    arguments: { timeout: 500 },
+  })).toContainTextContent(`Error: Timed out 500ms waiting for a download to start`);
+});
+
+test('downloads config rejects extensions and large files', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    args: ['--caps=downloads', '--allowed-download-extensions=.csv,txt', '--max-download-size=10'],
+    config: { outputDir: testInfo.outputPath('output') },
+  });
+  server.setContent('/', `
+    <a href="/setup.exe" download="setup.exe">Installer</a>
+    <a href="/notes.txt" download="notes.txt">Notes</a>
+  `, 'text/html');
+  server.setContent('/setup.exe', 'MZ', 'application/octet-stream');
+  server.setContent('/notes.txt', 'More than ten bytes of notes', 'text/plain');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Installer link', ref: 'e2' },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Notes link', ref: 'e3' },
+  });
+
+  await expect.poll(() => client.callTool({ name: 'browser_snapshot' })).toContainTextContent(`### Downloads
+- Download of file setup.exe rejected: extension ".exe" is not allowed
+- Download of file notes.txt rejected: size of 28 bytes exceeds the limit of 10 bytes`);
+  expect(await client.callTool({
+    name: 'browser_download_read',
+    arguments: { download: 'notes.txt' },
+  })).toContainTextContent(`Error: Download of notes.txt rejected: size of 28 bytes exceeds the limit of 10 bytes`);
+});
+
+test('downloads config rejects large files before saving them', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    args: ['--caps=downloads', '--max-download-size=10'],
+    config: { outputDir: testInfo.outputPath('output') },
+  });
+  server.setContent('/', `<a href="/big.bin" download="big.bin">Archive</a>`, 'text/html');
+  server.route('/big.bin', (req, res) => {
+    // Announce a large body and never finish it, the download is only rejected if its size is checked up front.
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': '1000000' });
+    res.write('x'.repeat(100));
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Archive link', ref: 'e2' },
+  });
+
+  await expect.poll(() => client.callTool({ name: 'browser_snapshot' })).toContainTextContent(`- Download of file big.bin rejected: size of 1000000 bytes exceeds the limit of 10 bytes`);
+});
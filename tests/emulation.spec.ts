@@ -0,0 +1,191 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { test, expect } from './fixtures.js';
+
+test('browser_set_geolocation', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=emulation'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_set_geolocation',
+    arguments: { latitude: 52.52, longitude: 13.405 },
+  })).toHaveTextContent(`### Result
+Set geolocation to 52.52, 13.405
+
+### Ran Playwright code
+\`\`\`js
+await page.context().grantPermissions(['geolocation']);
+await page.context().setGeolocation({
+  latitude: 52.52,
+  longitude: 13.405
+});
+\`\`\``);
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: {
+      function: '() => new Promise(f => navigator.geolocation.getCurrentPosition(p => f(p.coords.latitude + "," + p.coords.longitude)))',
+    },
+  })).toContainTextContent(`"52.52,13.405"`);
+
+  expect(await client.callTool({
+    name: 'browser_set_geolocation',
+    arguments: { latitude: 52.52 },
+  })).toContainTextContent(`Both latitude and longitude must be provided or neither.`);
+});
+
+test('browser_grant_permissions and browser_clear_permissions', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=emulation'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_grant_permissions',
+    arguments: { permissions: ['geolocation'], origin: server.PREFIX.slice(0, -1) },
+  })).toContainTextContent(`Granted geolocation to ${server.PREFIX.slice(0, -1)}`);
+
+  const queryPermission = {
+    name: 'browser_evaluate',
+    arguments: { function: `() => navigator.permissions.query({ name: 'geolocation' }).then(status => status.state)` },
+  };
+  expect(await client.callTool(queryPermission)).toContainTextContent(`"granted"`);
+
+  expect(await client.callTool({
+    name: 'browser_clear_permissions',
+  })).toContainTextContent(`Revoked all permissions`);
+  expect(await client.callTool(queryPermission)).not.toContainTextContent(`"granted"`);
+});
+
+test('browser_emulate_media', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=emulation'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_emulate_media',
+    arguments: { colorScheme: 'dark', reducedMotion: 'reduce' },
+  })).toContainTextContent(`### Result
+Emulating colorScheme: dark, reducedMotion: reduce
+
+### Ran Playwright code
+\`\`\`js
+await page.emulateMedia({
+  colorScheme: 'dark',
+  reducedMotion: 'reduce'
+});
+\`\`\``);
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => matchMedia('(prefers-color-scheme: dark)').matches && matchMedia('(prefers-reduced-motion: reduce)').matches` },
+  })).toContainTextContent(`true`);
+
+  expect(await client.callTool({
+    name: 'browser_emulate_media',
+    arguments: {},
+  })).toContainTextContent(`At least one media feature must be specified.`);
+});
+
+test('browser_set_locale', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=emulation', '--isolated'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => { localStorage.setItem('theme', 'dark'); document.cookie = 'session=abc'; }` },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_set_locale',
+    arguments: { locale: 'de-DE', timezoneId: 'Europe/Berlin' },
+  });
+  expect(result).toContainTextContent(`Recreated browser context with locale: de-DE, timezoneId: Europe/Berlin`);
+  expect(result).toContainTextContent(`// test.use({ locale: 'de-DE', timezoneId: 'Europe/Berlin' });`);
+  expect(result).toContainTextContent(`- Page URL: ${server.HELLO_WORLD}`);
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => [navigator.language, Intl.DateTimeFormat().resolvedOptions().timeZone, localStorage.getItem('theme'), document.cookie].join(' ')` },
+  })).toContainTextContent(`"de-DE Europe/Berlin dark session=abc"`);
+});
+
+test('browser_set_locale keeps geolocation, permissions and emulated media', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=emulation', '--isolated'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_set_geolocation',
+    arguments: { latitude: 52.52, longitude: 13.405 },
+  });
+  await client.callTool({
+    name: 'browser_grant_permissions',
+    arguments: { permissions: ['notifications'], origin: server.PREFIX.slice(0, -1) },
+  });
+  await client.callTool({
+    name: 'browser_emulate_media',
+    arguments: { colorScheme: 'dark' },
+  });
+
+  await client.callTool({
+    name: 'browser_set_locale',
+    arguments: { locale: 'de-DE' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: {
+      function: `async () => [
+        await new Promise(f => navigator.geolocation.getCurrentPosition(p => f(p.coords.latitude + ',' + p.coords.longitude))),
+        (await navigator.permissions.query({ name: 'notifications' })).state,
+        matchMedia('(prefers-color-scheme: dark)').matches,
+      ].join(' ')`,
+    },
+  })).toContainTextContent(`"52.52,13.405 granted true"`);
+});
+
+test('browser_set_locale keeps the locale when only the timezone changes', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=emulation', '--isolated'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_set_locale',
+    arguments: { locale: 'de-DE' },
+  });
+  await client.callTool({
+    name: 'browser_set_locale',
+    arguments: { timezoneId: 'Europe/Berlin' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => [navigator.language, Intl.DateTimeFormat().resolvedOptions().timeZone].join(' ')` },
+  })).toContainTextContent(`"de-DE Europe/Berlin"`);
+});
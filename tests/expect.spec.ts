@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { test, expect } from './fixtures.js';
+
+test('browser_expect_visible', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=testing'] });
+  server.setContent('/', `
+    <button>Submit</button>
+    <div style="display: none">Hidden</div>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_expect_visible',
+    arguments: { element: 'Submit button', ref: 'e2' },
+  })).toHaveTextContent(`### Result
+Assertion toBeVisible passed for Submit button
+
+### Ran Playwright code
+\`\`\`js
+await expect(page.getByRole('button', { name: 'Submit' })).toBeVisible();
+\`\`\``);
+
+  expect(await client.callTool({
+    name: 'browser_expect_visible',
+    arguments: { locator: 'text=Hidden', visible: false },
+  })).toContainTextContent(`await expect(page.getByText('Hidden')).toBeHidden();`);
+
+  const result = await client.callTool({
+    name: 'browser_expect_visible',
+    arguments: { locator: 'text=Hidden', timeout: 500 },
+  });
+  expect(result.isError).toBe(true);
+  expect(result).toContainTextContent(`Expected: visible`);
+  expect(result).toContainTextContent(`Received: hidden`);
+});
+
+test('browser_expect_visible requires a target', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=testing'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_expect_visible',
+    arguments: { ref: 'e1', locator: 'body' },
+  })).toContainTextContent('Exactly one of ref or locator must be specified.');
+});
+
+test('browser_expect_text', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=testing'] });
+  server.setContent('/', `<h1>Welcome back, Alice</h1>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_expect_text',
+    arguments: { locator: 'h1', text: 'Alice' },
+  })).toContainTextContent(`await expect(page.locator('h1')).toContainText('Alice');`);
+
+  const result = await client.callTool({
+    name: 'browser_expect_text',
+    arguments: { locator: 'h1', text: 'Welcome back, Bob', exact: true, timeout: 500 },
+  });
+  expect(result.isError).toBe(true);
+  expect(result).toContainTextContent(`Expected string: "Welcome back, Bob"`);
+  expect(result).toContainTextContent(`Received string: "Welcome back, Alice"`);
+});
+
+test('browser_expect_value', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=testing'] });
+  server.setContent('/', `<input value="alice@example.com">`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_expect_value',
+    arguments: { element: 'Email', ref: 'e2', value: 'alice@example.com', timeout: 1000 },
+  })).toContainTextContent(`await expect(page.getByRole('textbox')).toHaveValue('alice@example.com', { timeout: 1000 });`);
+});
+
+test('browser_expect_count', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=testing'] });
+  server.setContent('/', `<ul><li>One</li><li>Two</li><li>Three</li></ul>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_expect_count',
+    arguments: { locator: 'li', count: 3 },
+  })).toContainTextContent(`await expect(page.locator('li')).toHaveCount(3);`);
+
+  const result = await client.callTool({
+    name: 'browser_expect_count',
+    arguments: { locator: 'li', count: 2, timeout: 500 },
+  });
+  expect(result.isError).toBe(true);
+  expect(result).toContainTextContent(`Expected: 2`);
+  expect(result).toContainTextContent(`Received: 3`);
+});
+
+test('browser_expect_url', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=testing'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_expect_url',
+    arguments: { url: server.HELLO_WORLD },
+  })).toContainTextContent(`await expect(page).toHaveURL('${server.HELLO_WORLD}');`);
+
+  expect(await client.callTool({
+    name: 'browser_expect_url',
+    arguments: { url: '/hello-world$', regex: true },
+  })).toContainTextContent(`await expect(page).toHaveURL(/\\/hello-world$/);`);
+
+  const result = await client.callTool({
+    name: 'browser_expect_url',
+    arguments: { url: `${server.PREFIX}other`, timeout: 500 },
+  });
+  expect(result.isError).toBe(true);
+  expect(result).toContainTextContent(`Received string: "${server.HELLO_WORLD}"`);
+});
@@ -43,7 +43,7 @@ type CDPServer = {
 
 type TestFixtures = {
   client: Client;
-  startClient: (options?: { clientName?: string, args?: string[], config?: Config }) => Promise<{ client: Client, stderr: () => string }>;
+  startClient: (options?: { clientName?: string, args?: string[], config?: Config, env?: Record<string, string> }) => Promise<{ client: Client, stderr: () => string }>;
   wsEndpoint: string;
   cdpServer: CDPServer;
   server: TestServer;
@@ -86,7 +86,7 @@ export const test = baseTest.extend<TestFixtures & TestOptions, WorkerFixtures>(
       }
 
       client = new Client({ name: options?.clientName ?? 'test', version: '1.0.0' });
-      const { transport, stderr } = await createTransport(args, mcpMode);
+      const { transport, stderr } = await createTransport(args, mcpMode, options?.env);
       let stderrBuffer = '';
       stderr?.on('data', data => {
         if (process.env.PWMCP_DEBUG)
@@ -166,7 +166,7 @@ export const test = baseTest.extend<TestFixtures & TestOptions, WorkerFixtures>(
   },
 });
 
-async function createTransport(args: string[], mcpMode: TestOptions['mcpMode']): Promise<{
+async function createTransport(args: string[], mcpMode: TestOptions['mcpMode'], env?: Record<string, string>): Promise<{
   transport: Transport,
   stderr: Stream | null,
 }> {
@@ -191,6 +191,7 @@ async function createTransport(args: string[], mcpMode: TestOptions['mcpMode']):
     stderr: 'pipe',
     env: {
       ...process.env,
+      ...env,
       DEBUG: 'pw:mcp:test',
       DEBUG_COLORS: '0',
       DEBUG_HIDE_DATE: '1',
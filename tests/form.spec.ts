@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures.js';
+
+test('browser_fill_form', async ({ client, server }, testInfo) => {
+  server.setContent('/', `
+    <input aria-label="Name">
+    <input type="checkbox" aria-label="Subscribe">
+    <input type="radio" name="plan" aria-label="Pro">
+    <select aria-label="Country"><option value="us">United States</option><option value="de">Germany</option></select>
+    <input type="date" aria-label="Start">
+    <input type="file" aria-label="Avatar">
+  `, 'text/html');
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent(`- combobox "Country" [ref=e5]`);
+
+  const avatar = testInfo.outputPath('avatar.txt');
+  await fs.promises.writeFile(avatar, 'avatar');
+
+  const result = await client.callTool({
+    name: 'browser_fill_form',
+    arguments: {
+      fields: [
+        { element: 'Name', ref: 'e2', value: 'Jane' },
+        { element: 'Subscribe', ref: 'e3', value: 'true' },
+        { element: 'Pro', ref: 'e4', value: 'true' },
+        { element: 'Country', ref: 'e5', value: 'de' },
+        { element: 'Start', ref: 'e6', value: '2025-01-31' },
+        { element: 'Avatar', ref: 'e7', value: avatar, type: 'file' },
+      ],
+    },
+  });
+
+  expect(result).toContainTextContent(`### Ran Playwright code
+\`\`\`js
+// Set "Name" to 'Jane'
+await page.getByRole('textbox', { name: 'Name' }).fill('Jane');
+// Set "Subscribe" to 'true'
+await page.getByRole('checkbox', { name: 'Subscribe' }).check();
+// Set "Pro" to 'true'
+await page.getByRole('radio', { name: 'Pro' }).check();
+// Set "Country" to 'de'`);
+  expect(result).toContainTextContent(`.selectOption('de');`);
+  expect(result).toContainTextContent(`.fill('2025-01-31');`);
+  expect(result).toContainTextContent(`.setInputFiles('${avatar}');`);
+
+  expect(result).toContainTextContent(`- textbox "Name" [ref=e2]: Jane`);
+  expect(result).toContainTextContent(`- checkbox "Subscribe" [checked] [ref=e3]`);
+  expect(result).toContainTextContent(`- radio "Pro" [checked] [ref=e4]`);
+});
+
+test('browser_fill_form unchecks checkboxes', async ({ client, server }) => {
+  server.setContent('/', `<input type="checkbox" checked aria-label="Subscribe">`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_fill_form',
+    arguments: { fields: [{ element: 'Subscribe', ref: 'e2', value: 'false' }] },
+  });
+  expect(result).toContainTextContent(`await page.getByRole('checkbox', { name: 'Subscribe' }).uncheck();`);
+  expect(result).toContainTextContent(`- checkbox "Subscribe" [ref=e2]`);
+});
+
+test('browser_fill_form rejects unchecking radio buttons', async ({ client, server }) => {
+  server.setContent('/', `<input type="radio" name="plan" checked aria-label="Pro">`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_fill_form',
+    arguments: { fields: [{ element: 'Pro', ref: 'e2', value: 'false' }] },
+  })).toHaveTextContent(`Error: Radio button "Pro" cannot be unchecked, select another option of its group instead`);
+});
+
+test('browser_fill_form detects ARIA checkboxes', async ({ client, server }) => {
+  server.setContent('/', `
+    <div role="checkbox" aria-checked="false" tabindex="0" aria-label="Subscribe"
+         onclick="this.setAttribute('aria-checked', this.getAttribute('aria-checked') === 'true' ? 'false' : 'true')"></div>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_fill_form',
+    arguments: { fields: [{ element: 'Subscribe', ref: 'e2', value: 'true' }] },
+  });
+  expect(result).toContainTextContent(`await page.getByRole('checkbox', { name: 'Subscribe' }).check();`);
+  expect(result).toContainTextContent(`- checkbox "Subscribe" [checked] [ref=e2]`);
+});
@@ -0,0 +1,107 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { test, expect } from './fixtures.js';
+
+import type { TestServer } from './testserver/index.ts';
+
+function setupFrames(server: TestServer) {
+  server.setContent('/', `
+    <h1>Checkout</h1>
+    <iframe name="payment" src="/payment"></iframe>
+    <iframe id="editor" src="/editor"></iframe>
+  `, 'text/html');
+  server.setContent('/payment', `<input id="card" value="4242"><button>Pay</button>`, 'text/html');
+  server.setContent('/editor', `<p>Editor</p><iframe src="/nested"></iframe>`, 'text/html');
+  server.setContent('/nested', `<span class="note">Nested note</span>`, 'text/html');
+}
+
+test('browser_frames', async ({ client, server }) => {
+  setupFrames(server);
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_frames',
+  })).toHaveTextContent(`### Result
+- main frame (${server.PREFIX})
+  - iframe[name="payment"] "payment" (${server.PREFIX}payment)
+  - #editor (${server.PREFIX}editor)
+    - iframe[src="/nested"] (${server.PREFIX}nested)
+`);
+});
+
+test('browser_get_html_content with frame', async ({ client, server }) => {
+  setupFrames(server);
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_get_outer_html',
+    arguments: { locator: '#card', frame: ['iframe[name="payment"]'] },
+  });
+  expect(result).toContainTextContent(`<input id="card" value="4242">`);
+  expect(result).toContainTextContent(`const elements = await page.frameLocator('iframe[name="payment"]').locator('#card').all();`);
+
+  expect(await client.callTool({
+    name: 'browser_get_html_content',
+    arguments: { locator: '.note', frame: ['#editor', 'iframe'] },
+  })).toContainTextContent(`Nested note`);
+
+  expect(await client.callTool({
+    name: 'browser_get_html_content',
+    arguments: { frame: ['#editor'] },
+  })).toContainTextContent(`<p>Editor</p>`);
+});
+
+test('browser_element_snapshot with frame', async ({ client, server }) => {
+  setupFrames(server);
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_element_snapshot',
+    arguments: { locator: 'button', frame: ['iframe[name="payment"]'] },
+  })).toContainTextContent(`- button: Pay`);
+});
+
+test('browser_take_screenshot with frame', async ({ startClient, server }, testInfo) => {
+  const { client } = await startClient({
+    config: { outputDir: testInfo.outputPath('output') },
+  });
+  setupFrames(server);
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_take_screenshot',
+    arguments: { locator: 'button', frame: ['iframe[name="payment"]'] },
+  })).toContainTextContent(`Screenshot taken of 1 element(s) matching locator "button"`);
+
+  expect(await client.callTool({
+    name: 'browser_take_screenshot',
+    arguments: { frame: ['iframe[name="payment"]'] },
+  })).toContainTextContent('frame can only be used with locator.');
+});
@@ -0,0 +1,163 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+import { test, expect } from './fixtures.js';
+
+test('browser_generate_test', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: ['--caps=testing', `--output-dir=${outputDir}`],
+  });
+  server.setContent('/', `<button onclick="this.textContent = 'Done'">Submit</button>`, 'text/html');
+
+  expect(await client.callTool({
+    name: 'browser_generate_test',
+    arguments: {},
+  })).toHaveTextContent('Error: No Playwright code was recorded in this session yet');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Submit button', ref: 'e2' },
+  });
+  await client.callTool({
+    name: 'browser_expect_text',
+    arguments: { locator: 'button', text: 'Done' },
+  });
+
+  const testFile = path.join(outputDir, 'submit.spec.ts');
+  expect(await client.callTool({
+    name: 'browser_generate_test',
+    arguments: { name: 'submit form', filename: 'submit.spec.ts' },
+  })).toContainTextContent(`Saved test with 3 step(s) to ${testFile}`);
+
+  const code = fs.readFileSync(testFile, 'utf-8');
+  expect(code).toContain(`import { test, expect } from '@playwright/test';`);
+  expect(code).toContain(`test('submit form', async ({ page }) => {
+  // Navigate to ${server.PREFIX}
+  await page.goto('${server.PREFIX}');
+  // Click Submit button
+  await page.getByRole('button', { name: 'Submit' }).click();
+  await expect(page.locator('button')).toContainText('Done');
+});`);
+});
+
+test('generated test compiles with steps from several tools', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: ['--caps=testing', `--output-dir=${outputDir}`],
+  });
+  server.setContent('/', `<div>One</div><div>Two</div>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_get_html_content',
+    arguments: {},
+  });
+  await client.callTool({
+    name: 'browser_get_html_content',
+    arguments: {},
+  });
+  await client.callTool({
+    name: 'browser_get_html_content',
+    arguments: { locator: 'div' },
+  });
+  await client.callTool({
+    name: 'browser_get_outer_html',
+    arguments: { locator: 'div' },
+  });
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  });
+  await client.callTool({
+    name: 'browser_context_close',
+    arguments: { name: 'admin' },
+  });
+
+  const testFile = path.join(outputDir, 'mixed.spec.ts');
+  await client.callTool({
+    name: 'browser_generate_test',
+    arguments: { filename: 'mixed.spec.ts' },
+  });
+  const code = fs.readFileSync(testFile, 'utf-8');
+  expect(code).toContain(`  {
+    // Get full page HTML content
+    const html = await page.content();
+  }`);
+  expect(code).toContain(`  // Skipped browser_context_close, its code relies on objects created outside of this test:
+  // await context.close();`);
+
+  const program = ts.createProgram([testFile], {
+    noEmit: true,
+    strict: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.NodeNext,
+    moduleResolution: ts.ModuleResolutionKind.NodeNext,
+  });
+  const diagnostics = ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+  expect(diagnostics).toEqual([]);
+});
+
+test('generated test includes use options', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: ['--caps=testing', `--output-dir=${outputDir}`, '--viewport-size=800,600'],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(await client.callTool({
+    name: 'browser_generate_test',
+    arguments: {},
+  })).toContainTextContent(`  viewport: {
+  height: 600,
+  width: 800
+}`);
+});
+
+test('save test with --save-test', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: ['--save-test', `--output-dir=${outputDir}`],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  const files = fs.readdirSync(outputDir).filter(file => file.endsWith('.spec.ts'));
+  expect(files).toHaveLength(1);
+  expect(fs.readFileSync(path.join(outputDir, files[0]), 'utf-8')).toContain(`test('session', async ({ page }) => {
+  // Navigate to ${server.HELLO_WORLD}
+  await page.goto('${server.HELLO_WORLD}');
+});`);
+});
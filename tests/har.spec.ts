@@ -0,0 +1,150 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { test, expect } from './fixtures.js';
+
+test('save HAR with --save-har', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: ['--save-har', `--output-dir=${outputDir}`],
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_close',
+  });
+
+  const harFile = path.join(outputDir, 'session.har');
+  await expect.poll(() => fs.existsSync(harFile)).toBeTruthy();
+  expect(fs.readFileSync(harFile, 'utf-8')).toContain(server.HELLO_WORLD);
+});
+
+test('browser_har_record and browser_har_replay', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: ['--caps=network', `--output-dir=${outputDir}`],
+  });
+  server.setContent('/', `<title>Recorded</title><body>Recorded content</body>`, 'text/html');
+
+  expect(await client.callTool({
+    name: 'browser_har_record',
+    arguments: { filename: 'recorded.har' },
+  })).toContainTextContent(`Recording network traffic to ${path.join(outputDir, 'recorded.har')}`);
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_close',
+  });
+
+  const harFile = path.join(outputDir, 'recorded.har');
+  await expect.poll(() => fs.existsSync(harFile)).toBeTruthy();
+
+  server.setContent('/', `<title>Live</title><body>Live content</body>`, 'text/html');
+
+  expect(await client.callTool({
+    name: 'browser_har_replay',
+    arguments: { path: harFile },
+  })).toContainTextContent(`Serving network responses from ${harFile}`);
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent(`Recorded content`);
+});
+
+test('browser_har_replay applies to new browser contexts', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({
+    args: ['--caps=network', `--output-dir=${outputDir}`],
+  });
+  server.setContent('/', `<title>Recorded</title><body>Recorded content</body>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_har_record',
+    arguments: { filename: 'recorded.har' },
+  });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_close',
+  });
+
+  const harFile = path.join(outputDir, 'recorded.har');
+  await expect.poll(() => fs.existsSync(harFile)).toBeTruthy();
+  server.setContent('/', `<title>Live</title><body>Live content</body>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_har_replay',
+    arguments: { path: harFile },
+  });
+  await client.callTool({
+    name: 'browser_context_new',
+    arguments: { name: 'admin' },
+  });
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent(`Recorded content`);
+});
+
+test('replay HAR with --replay-har', async ({ startClient, server }, testInfo) => {
+  const harFile = testInfo.outputPath('replay.har');
+  await fs.promises.writeFile(harFile, JSON.stringify({
+    log: {
+      version: '1.2',
+      creator: { name: 'test', version: '1.0' },
+      pages: [],
+      entries: [{
+        startedDateTime: new Date().toISOString(),
+        time: 0,
+        request: { method: 'GET', url: server.PREFIX, httpVersion: 'HTTP/1.1', cookies: [], headers: [], queryString: [], headersSize: -1, bodySize: -1 },
+        response: {
+          status: 200,
+          statusText: 'OK',
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: [{ name: 'Content-Type', value: 'text/html' }],
+          content: { size: -1, mimeType: 'text/html', text: '<body>From HAR</body>' },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: -1,
+        },
+        cache: {},
+        timings: { send: 0, wait: 0, receive: 0 },
+      }],
+    },
+  }));
+
+  const { client } = await startClient({
+    args: [`--replay-har=${harFile}`],
+  });
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent(`From HAR`);
+});
@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures.js';
+
+test('incremental snapshot after action', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--snapshot-mode=incremental'] });
+  server.setContent('/', `
+    <button onclick="document.querySelector('div').textContent = 'Clicked'">Click me</button>
+    <div>Not clicked</div>
+    <ul>${Array.from({ length: 20 }, (_, i) => `<li>Item ${i}</li>`).join('')}</ul>
+  `, 'text/html');
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent(`- listitem [ref=e24]: Item 19`);
+
+  const response = await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Click me', ref: 'e2' },
+  });
+  expect(response).toContainTextContent(`- Page Snapshot (changes since the previous snapshot, use browser_snapshot for the full snapshot):
+\`\`\`yaml
+# Changed
+- button "Click me" [active] [ref=e2]
+- generic [ref=e3]: Clicked
+\`\`\``);
+  expect(response).not.toContainTextContent(`Item 19`);
+});
+
+test('incremental snapshot without changes', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--snapshot-mode=incremental'] });
+  server.setContent('/', `
+    <button>Click me</button>
+    <ul>${Array.from({ length: 20 }, (_, i) => `<li>Item ${i}</li>`).join('')}</ul>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Click me', ref: 'e2' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_hover',
+    arguments: { element: 'Click me', ref: 'e2' },
+  })).toContainTextContent(`- Page Snapshot: no changes since the previous snapshot`);
+});
+
+test('browser_snapshot returns full snapshot in incremental mode', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--snapshot-mode=incremental'] });
+  server.setContent('/', `
+    <button onclick="document.querySelector('div').textContent = 'Clicked'">Click me</button>
+    <div>Not clicked</div>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Click me', ref: 'e2' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_snapshot',
+  })).toContainTextContent(`- Page Snapshot:
+\`\`\`yaml
+- generic [ref=e1]:
+  - button "Click me" [active] [ref=e2]
+  - generic [ref=e3]: Clicked
+\`\`\``);
+});
+
+test('incremental snapshot falling back to full snapshot keeps console messages', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--snapshot-mode=incremental'] });
+  server.setContent('/', `
+    <button onclick="console.log('Replaced'); document.body.innerHTML = '<p>Replaced</p>'">Replace</button>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  // The diff of a replaced page is not smaller than the page, so the full snapshot is reported.
+  const response = await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Replace', ref: 'e2' },
+  });
+  expect(response).toContainTextContent(`### New console messages
+- [LOG] Replaced @`);
+  expect(response).toContainTextContent(`- Page Snapshot:
+\`\`\`yaml`);
+  expect(response).toContainTextContent(`paragraph [ref=e3]: Replaced`);
+});
@@ -0,0 +1,130 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { test, expect } from './fixtures.js';
+
+test('browser_press_key (chord)', async ({ client, server }) => {
+  server.setContent('/', `
+    <input type='text' onkeydown="console.log('Key down:', event.key, 'Control:', event.ctrlKey, 'Shift:', event.shiftKey)"></input>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'textbox', ref: 'e2' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_press_key',
+    arguments: { key: 'Control+Shift+K' },
+  })).toContainTextContent(`// Press Control+Shift+K
+await page.keyboard.press('Control+Shift+K');`);
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+  })).toContainTextContent(`Key down: K Control: true Shift: true`);
+});
+
+test('browser_press_key (down and up)', async ({ client, server }) => {
+  server.setContent('/', `
+    <input type='text' onkeydown="console.log('Key down:', event.key, 'Shift:', event.shiftKey)" onkeyup="console.log('Key up:', event.key)"></input>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'textbox', ref: 'e2' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_press_key',
+    arguments: { key: 'Control+Shift', action: 'down' },
+  })).toContainTextContent(`// Hold Control+Shift
+await page.keyboard.down('Control');
+await page.keyboard.down('Shift');`);
+
+  await client.callTool({
+    name: 'browser_press_key',
+    arguments: { key: 'ArrowLeft' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_press_key',
+    arguments: { key: 'Control+Shift', action: 'up' },
+  })).toContainTextContent(`// Release Control+Shift
+await page.keyboard.up('Shift');
+await page.keyboard.up('Control');`);
+
+  const response = await client.callTool({
+    name: 'browser_console_messages',
+    arguments: { filter: 'Key' },
+  });
+  expect(response).toContainTextContent(`Key down: ArrowLeft Shift: true`);
+  expect(response).toContainTextContent(`Key up: Shift`);
+  expect(response).toContainTextContent(`Key up: Control`);
+});
+
+test('browser_insert_text', async ({ client, server }) => {
+  server.setContent('/', `
+    <div contenteditable="true" role="textbox" aria-label="Editor" onkeydown="console.log('Key down:', event.key)"></div>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const response = await client.callTool({
+    name: 'browser_insert_text',
+    arguments: { element: 'Editor', ref: 'e2', text: 'Hello 👋 世界' },
+  });
+  expect(response).toContainTextContent(`// Insert "Hello 👋 世界" into "Editor"
+await page.getByRole('textbox', { name: 'Editor' }).focus();
+await page.keyboard.insertText('Hello 👋 世界');`);
+  expect(response).toContainTextContent(`Hello 👋 世界`);
+  expect(await client.callTool({
+    name: 'browser_console_messages',
+  })).toHaveTextContent(`### Result
+No console messages`);
+});
+
+test('browser_type (delay and clear)', async ({ client, server }) => {
+  server.setContent('/', `
+    <input type='text' value='old text' onkeydown="console.log('Key pressed:', event.key, 'Text:', event.target.value)"></input>
+  `, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_type',
+    arguments: { element: 'textbox', ref: 'e2', text: 'Hi', delay: 50, clear: true },
+  })).toContainTextContent(`// Clear "textbox"
+await page.getByRole('textbox').press('ControlOrMeta+a');
+await page.getByRole('textbox').press('Delete');
+// Press "Hi" sequentially into "textbox"
+await page.getByRole('textbox').pressSequentially('Hi', { delay: 50 });`);
+
+  const response = await client.callTool({
+    name: 'browser_console_messages',
+  });
+  // The existing text is cleared before typing.
+  expect(response).toContainTextContent(`Key pressed: i Text: H`);
+});
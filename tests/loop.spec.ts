@@ -0,0 +1,97 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures.js';
+
+test('browser_perform replays recorded tool calls', async ({ startClient, server }, testInfo) => {
+  const replayFile = testInfo.outputPath('replay.jsonl');
+  await fs.promises.writeFile(replayFile, [
+    JSON.stringify({ name: 'browser_navigate', arguments: { url: server.HELLO_WORLD } }),
+    JSON.stringify({ name: 'done', arguments: {} }),
+  ].join('\n'));
+
+  const { client } = await startClient({
+    args: ['--loop-tools'],
+    env: { PLAYWRIGHT_MCP_LLM_REPLAY: replayFile },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_perform',
+    arguments: { task: 'Open the hello world page' },
+  })).toContainTextContent(`await page.goto('${server.HELLO_WORLD}');`);
+});
+
+test('browser_perform fails when recorded tool calls run out', async ({ startClient, server }, testInfo) => {
+  const replayFile = testInfo.outputPath('replay.jsonl');
+  await fs.promises.writeFile(replayFile, JSON.stringify({ toolCalls: [{ name: 'browser_navigate', arguments: { url: server.HELLO_WORLD } }] }) + '\n');
+
+  const { client } = await startClient({
+    args: ['--loop-tools'],
+    env: { PLAYWRIGHT_MCP_LLM_REPLAY: replayFile },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_perform',
+    arguments: { task: 'Open the hello world page' },
+  })).toContainTextContent(`No more recorded tool calls in ${replayFile}`);
+});
+
+test('browser_perform honors --loop-max-iterations', async ({ startClient, server }, testInfo) => {
+  const replayFile = testInfo.outputPath('replay.jsonl');
+  await fs.promises.writeFile(replayFile, [
+    JSON.stringify({ name: 'browser_navigate', arguments: { url: server.HELLO_WORLD } }),
+    JSON.stringify({ name: 'browser_navigate', arguments: { url: server.PREFIX } }),
+  ].join('\n'));
+
+  const { client } = await startClient({
+    args: ['--loop-tools', '--loop-max-iterations=1'],
+    env: { PLAYWRIGHT_MCP_LLM_REPLAY: replayFile },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_perform',
+    arguments: { task: 'Open the hello world page' },
+  })).toContainTextContent(`Failed to perform step, max attempts (1) reached`);
+});
+
+test('browser_perform reports progress', async ({ startClient, server }, testInfo) => {
+  const replayFile = testInfo.outputPath('replay.jsonl');
+  await fs.promises.writeFile(replayFile, [
+    JSON.stringify({ name: 'browser_navigate', arguments: { url: server.HELLO_WORLD } }),
+    JSON.stringify({ name: 'browser_snapshot', arguments: {} }),
+    JSON.stringify({ name: 'done', arguments: {} }),
+  ].join('\n'));
+
+  const { client } = await startClient({
+    args: ['--loop-tools'],
+    env: { PLAYWRIGHT_MCP_LLM_REPLAY: replayFile },
+  });
+
+  const progress: { progress: number, message?: string }[] = [];
+  await client.callTool({
+    name: 'browser_perform',
+    arguments: { task: 'Open the hello world page' },
+  }, undefined, {
+    onprogress: ({ progress: value, message }) => progress.push({ progress: value, message }),
+  });
+  expect(progress).toEqual([
+    { progress: 1, message: 'browser_navigate done' },
+    { progress: 2, message: 'browser_snapshot done' },
+  ]);
+});
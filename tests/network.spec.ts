@@ -44,3 +44,96 @@ test('browser_network_requests', async ({ client, server }) => {
 [GET] ${`${server.PREFIX}`} => [200] OK
 [GET] ${`${server.PREFIX}json`} => [200] OK`);
 });
+
+test('browser_network_requests (filtered)', async ({ client, server }) => {
+  server.setContent('/', `
+    <button onclick="fetch('/json')">Click me</button>
+  `, 'text/html');
+
+  server.setContent('/json', JSON.stringify({ name: 'John Doe' }), 'application/json');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: server.PREFIX,
+    },
+  });
+
+  await client.callTool({
+    name: 'browser_click',
+    arguments: {
+      element: 'Click me button',
+      ref: 'e2',
+    },
+  });
+
+  await expect.poll(() => client.callTool({
+    name: 'browser_network_requests',
+    arguments: {
+      resourceTypes: ['fetch'],
+    },
+  })).toHaveTextContent(`### Result
+[GET] ${`${server.PREFIX}json`} => [200] OK`);
+});
+
+test('browser_network_request_details', async ({ client, server }) => {
+  server.setContent('/', `
+    <button onclick="fetch('/api', { method: 'POST', body: 'payload' })">Click me</button>
+  `, 'text/html');
+
+  server.route('/api', (req, res) => {
+    res.writeHead(500, { 'Content-Type': 'application/json', 'X-Custom': 'custom-value' });
+    res.end(JSON.stringify({ error: 'Something went wrong' }));
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: server.PREFIX,
+    },
+  });
+
+  await client.callTool({
+    name: 'browser_click',
+    arguments: {
+      element: 'Click me button',
+      ref: 'e2',
+    },
+  });
+
+  await expect.poll(() => client.callTool({
+    name: 'browser_network_request_details',
+    arguments: {
+      url: '**/api',
+      statusMin: 500,
+    },
+  })).toContainTextContent(`[POST] ${server.PREFIX}api => [500] Internal Server Error`);
+
+  const response = await client.callTool({
+    name: 'browser_network_request_details',
+    arguments: {
+      method: 'POST',
+    },
+  });
+  expect(response).toContainTextContent('Request 1 of 1 matching');
+  expect(response).toContainTextContent('- Resource type: fetch');
+  expect(response).toContainTextContent('- x-custom: custom-value');
+  expect(response).toContainTextContent('payload');
+  expect(response).toContainTextContent('{"error":"Something went wrong"}');
+});
+
+test('browser_network_request_details (no match)', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: {
+      url: server.HELLO_WORLD,
+    },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_network_request_details',
+    arguments: {
+      method: 'DELETE',
+    },
+  })).toHaveTextContent(`Error: No network requests match the given filters`);
+});
@@ -74,3 +74,137 @@ test('save as pdf (filename: output.pdf)', async ({ startClient, mcpBrowser, ser
   expect(pdfFiles).toHaveLength(1);
   expect(pdfFiles[0]).toMatch(/^output.pdf$/);
 });
+
+test('save as pdf with options', async ({ startClient, mcpBrowser, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  test.skip(!!mcpBrowser && !['chromium', 'chrome', 'msedge'].includes(mcpBrowser), 'Save as PDF is only supported in Chromium.');
+  const { client } = await startClient({
+    config: { outputDir, capabilities: ['pdf'] },
+  });
+  server.setContent('/', `<h1>Invoice 42</h1><p>Total: 99 EUR</p>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_pdf_save',
+    arguments: {
+      filename: 'invoice.pdf',
+      format: 'A4',
+      landscape: true,
+      margin: { top: '1cm' },
+      footerTemplate: '<span class="pageNumber"></span>',
+      media: 'screen',
+    },
+  })).toHaveTextContent(`### Result
+Saved page as ${outputDir}/invoice.pdf
+
+### Ran Playwright code
+\`\`\`js
+// Save page as ${outputDir}/invoice.pdf
+await page.emulateMedia({ media: 'screen' });
+await page.pdf({
+  displayHeaderFooter: true,
+  footerTemplate: '<span class="pageNumber"></span>',
+  format: 'A4',
+  landscape: true,
+  margin: {
+  top: '1cm'
+},
+  path: '${outputDir}/invoice.pdf'
+});
+await page.emulateMedia({ media: null });
+\`\`\``);
+
+  const result = await client.callTool({
+    name: 'browser_pdf_extract_text',
+    arguments: { path: `${outputDir}/invoice.pdf` },
+  });
+  expect(result).toContainTextContent(`PDF ${outputDir}/invoice.pdf with 1 page(s)`);
+  expect(result).toContainTextContent(`#### Page 1`);
+  expect(result).toContainTextContent(`Invoice 42`);
+  expect(result).toContainTextContent(`Total: 99 EUR`);
+});
+
+test('save as pdf restores the emulated media type', async ({ startClient, mcpBrowser, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  test.skip(!!mcpBrowser && !['chromium', 'chrome', 'msedge'].includes(mcpBrowser), 'Save as PDF is only supported in Chromium.');
+  const { client } = await startClient({
+    config: { outputDir, capabilities: ['pdf', 'emulation'] },
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_emulate_media',
+    arguments: { media: 'print' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_pdf_save',
+    arguments: { filename: 'page.pdf', media: 'screen' },
+  })).toContainTextContent(`await page.emulateMedia({ media: 'print' });`);
+
+  expect(await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: `() => matchMedia('print').matches` },
+  })).toContainTextContent(`true`);
+});
+
+test('browser_pdf_extract_text', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=pdf'] });
+  server.route('/invoice.pdf', (req, res) => {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.end(createPdf(['Invoice 42', 'Total: 99 EUR']));
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_pdf_extract_text',
+    arguments: { url: `${server.PREFIX}invoice.pdf` },
+  })).toContainTextContent(`### Result
+PDF ${server.PREFIX}invoice.pdf with 2 page(s)
+
+#### Page 1
+Invoice 42
+
+#### Page 2
+Total: 99 EUR`);
+
+  expect(await client.callTool({
+    name: 'browser_pdf_extract_text',
+  })).toContainTextContent(`${server.HELLO_WORLD} is not a PDF, provide the path or url of the PDF`);
+});
+
+// Builds a minimal PDF with one line of Helvetica text per page.
+function createPdf(pages: string[]): string {
+  const objects = [
+    `<< /Type /Catalog /Pages 2 0 R >>`,
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>`,
+  ];
+  for (const [i, text] of pages.entries()) {
+    const content = `BT /F1 24 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${5 + i * 2} 0 R /Resources << /Font << /F1 3 0 R >> >> >>`);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  }
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
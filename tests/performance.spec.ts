@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures.js';
+
+test('browser_performance_metrics', async ({ startClient, server, mcpBrowser }) => {
+  const { client } = await startClient({ args: ['--caps=performance'] });
+  server.setContent('/', `<h1>Hello</h1><script src="/app.js"></script>`, 'text/html');
+  server.setContent('/app.js', `document.body.append('loaded');`, 'text/javascript');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_performance_metrics',
+  });
+  expect(result).toContainTextContent(`- Page URL: ${server.PREFIX}`);
+  expect(result).toContainTextContent(`#### Navigation timing
+- Time to first byte: `);
+  expect(result).toContainTextContent(`#### Web Vitals
+- Largest contentful paint: `);
+  expect(result).toContainTextContent(`- Cumulative layout shift: 0.000`);
+  expect(result).toContainTextContent(`- Interaction to next paint (approx.): n/a, no interactions yet`);
+  expect(result).toContainTextContent(`#### Resources
+- 2 request(s), `);
+  expect(result).toContainTextContent(`- document: 1 (`);
+  expect(result).toContainTextContent(`- script: 1 (`);
+  if (['chrome', 'msedge', 'chromium'].includes(mcpBrowser!)) {
+    expect(result).toContainTextContent(`#### Memory`);
+    expect(result).toContainTextContent(`#### Chromium metrics`);
+    expect(result).toContainTextContent(`- JSHeapUsedSize: `);
+  }
+});
+
+test('browser_performance_metrics reports layout shifts', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=performance'] });
+  server.setContent('/', `
+    <div id="banner" style="height: 0"></div>
+    <p>Content</p>
+    <script>setTimeout(() => banner.style.height = '200px', 100)</script>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_wait_for',
+    arguments: { time: 1 },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_performance_metrics',
+  })).not.toContainTextContent(`- Cumulative layout shift: 0.000`);
+});
+
+test('browser_cpu_profile', async ({ startClient, server, mcpBrowser }, testInfo) => {
+  test.skip(!['chrome', 'msedge', 'chromium'].includes(mcpBrowser!), 'CPU profiles are only supported in Chromium');
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({ args: ['--caps=performance'], config: { outputDir } });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_cpu_profile_stop',
+  })).toContainTextContent(`Error: No CPU profile is being recorded for this tab, use browser_cpu_profile_start first`);
+
+  expect(await client.callTool({
+    name: 'browser_cpu_profile_start',
+  })).toContainTextContent(`Started CPU profile`);
+
+  await client.callTool({
+    name: 'browser_evaluate',
+    arguments: { function: '() => { let x = 0; for (let i = 0; i < 1e6; i++) x += i; return x; }' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_cpu_profile_stop',
+    arguments: { filename: 'app.cpuprofile' },
+  })).toContainTextContent(`to ${outputDir}/app.cpuprofile`);
+
+  const profile = JSON.parse(await fs.promises.readFile(`${outputDir}/app.cpuprofile`, 'utf-8'));
+  expect(profile.nodes.length).toBeGreaterThan(0);
+});
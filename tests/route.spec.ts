@@ -0,0 +1,138 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures.js';
+
+test('browser_route fulfill', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=network'] });
+  server.setContent('/', `
+    <button onclick="fetch('/api').then(r => r.text()).then(t => document.querySelector('div').textContent = t)">Load</button>
+    <div></div>
+  `, 'text/html');
+  server.setContent('/api', 'real', 'text/plain');
+
+  expect(await client.callTool({
+    name: 'browser_route',
+    arguments: {
+      url: '**/api',
+      action: 'fulfill',
+      status: 200,
+      contentType: 'text/plain',
+      body: 'mocked',
+    },
+  })).toHaveTextContent(`### Result
+Added route 1: **/api => fulfill with 200
+
+### Ran Playwright code
+\`\`\`js
+// Route **/api: fulfill with 200
+const routeHandler1 = route => route.fulfill({
+  body: 'mocked',
+  contentType: 'text/plain',
+  status: 200
+});
+await page.context().route('**/api', routeHandler1);
+\`\`\``);
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Load', ref: 'e2' },
+  })).toContainTextContent(`- generic [ref=e3]: mocked`);
+});
+
+test('browser_route abort', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=network'] });
+  server.setContent('/', `
+    <button onclick="fetch('/api').catch(() => document.querySelector('div').textContent = 'failed')">Load</button>
+    <div></div>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/api', action: 'abort', errorCode: 'connectionrefused' },
+  });
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Load', ref: 'e2' },
+  })).toContainTextContent(`- generic [ref=e3]: failed`);
+});
+
+test('browser_route continue with headers', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=network'] });
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/*', action: 'continue', headers: { 'x-test': 'value' } },
+  });
+
+  const [request] = await Promise.all([
+    server.waitForRequest('/hello-world'),
+    client.callTool({
+      name: 'browser_navigate',
+      arguments: { url: server.HELLO_WORLD },
+    }),
+  ]);
+  expect(request.headers['x-test']).toBe('value');
+});
+
+test('browser_route_list and browser_unroute', async ({ startClient }) => {
+  const { client } = await startClient({ args: ['--caps=network'] });
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/a', action: 'abort' },
+  });
+  await client.callTool({
+    name: 'browser_route',
+    arguments: { url: '**/b', action: 'fulfill', status: 404 },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_route_list',
+  })).toHaveTextContent(`### Result
+- 1: **/a => abort with "failed"
+- 2: **/b => fulfill with 404`);
+
+  const unrouteResult = await client.callTool({
+    name: 'browser_unroute',
+    arguments: { id: 1 },
+  });
+  expect(unrouteResult).toContainTextContent(`Removed 1 route(s)`);
+  expect(unrouteResult).toContainTextContent(`await page.context().unroute('**/a', routeHandler1);`);
+
+  expect(await client.callTool({
+    name: 'browser_route_list',
+  })).toHaveTextContent(`### Result
+- 2: **/b => fulfill with 404`);
+
+  await client.callTool({
+    name: 'browser_unroute',
+  });
+
+  expect(await client.callTool({
+    name: 'browser_route_list',
+  })).toHaveTextContent(`### Result
+No routes`);
+});
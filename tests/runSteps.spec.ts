@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { test, expect } from './fixtures.js';
+
+test('browser_run_steps', async ({ client, server }) => {
+  server.setContent('/', `
+    <input aria-label="First name">
+    <input aria-label="Last name">
+    <button onclick="this.textContent = document.querySelectorAll('input')[0].value + ' ' + document.querySelectorAll('input')[1].value">Submit</button>
+  `, 'text/html');
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  })).toContainTextContent(`- button "Submit" [ref=e4]`);
+
+  const result = await client.callTool({
+    name: 'browser_run_steps',
+    arguments: {
+      steps: [
+        { tool: 'browser_type', arguments: { element: 'First name', ref: 'e2', text: 'Jane' } },
+        { tool: 'browser_type', arguments: { element: 'Last name', ref: 'e3', text: 'Doe' } },
+        { tool: 'browser_click', arguments: { element: 'Submit', ref: 'e4' } },
+      ],
+    },
+  });
+
+  expect(result).toContainTextContent(`### Result
+Step 1/3 browser_type: done
+Step 2/3 browser_type: done
+Step 3/3 browser_click: done
+
+### Ran Playwright code
+\`\`\`js
+// Fill "Jane" into "First name"
+await page.getByRole('textbox', { name: 'First name' }).fill('Jane');
+// Fill "Doe" into "Last name"
+await page.getByRole('textbox', { name: 'Last name' }).fill('Doe');
+// Click Submit
+await page.getByRole('button', { name: 'Submit' }).click();
+\`\`\``);
+  expect(result).toContainTextContent(`- button "Jane Doe" [active] [ref=e4]`);
+  expect(result).toContainTextContent(`### Page state`);
+});
+
+test('browser_run_steps stops at the first failure', async ({ client, server }) => {
+  server.setContent('/', `<input aria-label="Name"><button>Submit</button>`, 'text/html');
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_run_steps',
+    arguments: {
+      steps: [
+        { tool: 'browser_type', arguments: { element: 'Name', ref: 'e2', text: 'Jane' } },
+        { tool: 'browser_click', arguments: { element: 'Missing', ref: 'e100' } },
+        { tool: 'browser_click', arguments: { element: 'Submit', ref: 'e3' } },
+      ],
+    },
+  });
+  expect(result).toContainTextContent(`Step 1/3 browser_type: done
+Step 2/3 browser_click: failed
+Error: Ref e100 not found in the current page snapshot. Try capturing new snapshot.
+Skipped remaining 1 step(s).`);
+  expect(result.isError).toBe(true);
+  expect(result).not.toContainTextContent(`getByRole('button', { name: 'Submit' }).click()`);
+});
+
+test('browser_run_steps rejects unknown tools', async ({ client }) => {
+  expect(await client.callTool({
+    name: 'browser_run_steps',
+    arguments: { steps: [{ tool: 'browser_unknown' }] },
+  })).toHaveTextContent(`Error: Tool "browser_unknown" not found`);
+});
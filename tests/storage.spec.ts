@@ -0,0 +1,132 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './fixtures.js';
+
+test('browser_cookie_set, browser_cookie_list and browser_cookie_delete', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=storage'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_cookie_set',
+    arguments: { name: 'session', value: 'abc' },
+  })).toContainTextContent(`Set cookie session`);
+
+  expect(await client.callTool({
+    name: 'browser_cookie_list',
+  })).toContainTextContent(`- session=abc (domain: localhost, path: /, expires: session`);
+
+  expect(await client.callTool({
+    name: 'browser_cookie_delete',
+    arguments: { name: 'session' },
+  })).toContainTextContent(`Deleted matching cookies`);
+
+  expect(await client.callTool({
+    name: 'browser_cookie_list',
+  })).toContainTextContent(`No cookies`);
+});
+
+test('browser_storage_set, browser_storage_get and browser_storage_delete', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=storage'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_storage_set',
+    arguments: { type: 'local', key: 'token', value: 'secret' },
+  })).toHaveTextContent(`### Result
+Set "token" in localStorage
+
+### Ran Playwright code
+\`\`\`js
+await page.evaluate(() => localStorage.setItem('token', 'secret'));
+\`\`\``);
+
+  expect(await client.callTool({
+    name: 'browser_storage_get',
+    arguments: { type: 'local', key: 'token' },
+  })).toContainTextContent(`secret`);
+
+  expect(await client.callTool({
+    name: 'browser_storage_get',
+    arguments: { type: 'session' },
+  })).toContainTextContent(`{}`);
+
+  await client.callTool({
+    name: 'browser_storage_delete',
+    arguments: { type: 'local' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_storage_get',
+    arguments: { type: 'local', key: 'token' },
+  })).toContainTextContent(`Key "token" not found in localStorage`);
+});
+
+test('browser_storage_state_save and browser_storage_state_load', async ({ startClient, server }, testInfo) => {
+  const outputDir = testInfo.outputPath('output');
+  const { client } = await startClient({ args: ['--caps=storage', `--output-dir=${outputDir}`] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  await client.callTool({
+    name: 'browser_cookie_set',
+    arguments: { name: 'auth', value: 'token' },
+  });
+  await client.callTool({
+    name: 'browser_storage_set',
+    arguments: { type: 'local', key: 'user', value: 'john' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_storage_state_save',
+    arguments: { filename: 'state.json' },
+  })).toContainTextContent(`Saved storage state to`);
+
+  const stateFile = testInfo.outputPath('output', 'state.json');
+  const state = JSON.parse(await fs.promises.readFile(stateFile, 'utf-8'));
+  expect(state.cookies).toEqual([expect.objectContaining({ name: 'auth', value: 'token' })]);
+
+  await client.callTool({
+    name: 'browser_cookie_delete',
+  });
+  await client.callTool({
+    name: 'browser_storage_delete',
+    arguments: { type: 'local' },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_storage_state_load',
+    arguments: { path: stateFile },
+  })).toContainTextContent(`Loaded 1 cookie(s) and localStorage of 1 origin(s)`);
+
+  expect(await client.callTool({
+    name: 'browser_cookie_list',
+  })).toContainTextContent(`- auth=token`);
+
+  expect(await client.callTool({
+    name: 'browser_storage_get',
+    arguments: { type: 'local', key: 'user' },
+  })).toContainTextContent(`john`);
+});
@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import { test, expect } from './fixtures.js';
+
+test('browser_network_offline', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=network'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_network_offline',
+    arguments: { offline: true },
+  })).toHaveTextContent(`### Result
+Network is offline
+
+### Ran Playwright code
+\`\`\`js
+await page.context().setOffline(true);
+\`\`\``);
+
+  const result = await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  expect(result.isError).toBe(true);
+
+  expect(await client.callTool({
+    name: 'browser_network_offline',
+    arguments: { offline: false },
+  })).toContainTextContent(`Network is online`);
+
+  expect(await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  })).toContainTextContent(`Hello, world!`);
+});
+
+test('--offline', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--offline'] });
+  const result = await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(result.isError).toBe(true);
+});
+
+test('browser_network_throttle', async ({ startClient, server }) => {
+  const { client } = await startClient({ args: ['--caps=network'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_network_throttle',
+    arguments: { latency: 1000 },
+  })).toContainTextContent(`Network throttled to 1000 ms latency, unlimited download, unlimited upload`);
+
+  const start = Date.now();
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+  expect(Date.now() - start).toBeGreaterThanOrEqual(1000);
+
+  expect(await client.callTool({
+    name: 'browser_network_throttle',
+    arguments: { preset: 'off' },
+  })).toContainTextContent(`Network throttling disabled`);
+});
+
+test('browser_network_throttle preset', async ({ startClient, server, mcpBrowser }) => {
+  const { client } = await startClient({ args: ['--caps=network'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_network_throttle',
+    arguments: { preset: 'slow-3g' },
+  });
+  expect(result).toContainTextContent(`Network throttled to 2000 ms latency, 400 kbit/s download, 400 kbit/s upload`);
+  if (['chrome', 'msedge', 'chromium'].includes(mcpBrowser!))
+    expect(result).toContainTextContent(`await client.send('Network.emulateNetworkConditions', {`);
+
+  expect(await client.callTool({
+    name: 'browser_network_throttle',
+    arguments: { preset: 'fast-3g', latency: 100 },
+  })).toContainTextContent(`Either preset or custom latency and throughput must be specified.`);
+});
+
+test('browser_cpu_throttle', async ({ startClient, server, mcpBrowser }) => {
+  const { client } = await startClient({ args: ['--caps=network'] });
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_cpu_throttle',
+    arguments: { rate: 4 },
+  });
+  if (['chrome', 'msedge', 'chromium'].includes(mcpBrowser!))
+    expect(result).toContainTextContent(`CPU throttled by 4x`);
+  else
+    expect(result).toContainTextContent(`Error: CPU throttling is only supported in Chromium`);
+});
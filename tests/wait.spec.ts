@@ -83,3 +83,156 @@ test('browser_wait_for(textGone)', async ({ client, server }) => {
     arguments: { textGone: 'Text to disappear' },
   })).toContainTextContent(`- generic [ref=e3]: Text to appear`);
 });
+
+test('browser_wait_for_element', async ({ client, server }) => {
+  server.setContent('/', `
+    <button id="submit" disabled>Submit</button>
+    <script>
+      setTimeout(() => {
+        document.querySelector('#submit').disabled = false;
+        document.body.insertAdjacentHTML('beforeend', '<div class="toast">Saved</div>');
+      }, 500);
+    </script>
+  `, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_wait_for_element',
+    arguments: { element: 'Submit button', ref: 'e2', state: 'enabled' },
+  })).toContainTextContent(`### Result
+Submit button is enabled
+
+### Ran Playwright code
+\`\`\`js
+await expect(page.getByRole('button', { name: 'Submit' })).toBeEnabled();
+\`\`\``);
+
+  expect(await client.callTool({
+    name: 'browser_wait_for_element',
+    arguments: { locator: '.toast', state: 'visible', timeout: 2000 },
+  })).toContainTextContent(`await page.locator('.toast').waitFor({ state: 'visible', timeout: 2000 });`);
+
+  const result = await client.callTool({
+    name: 'browser_wait_for_element',
+    arguments: { locator: '.toast', state: 'hidden', timeout: 500 },
+  });
+  expect(result.isError).toBe(true);
+});
+
+test('browser_wait_for_url', async ({ client, server }) => {
+  server.setContent('/', `<script>setTimeout(() => location.href = '/done', 500)</script>`, 'text/html');
+  server.setContent('/done', `<title>Done</title>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_wait_for_url',
+    arguments: { url: '**/done' },
+  })).toContainTextContent(`### Result
+Page URL is ${server.PREFIX}done
+
+### Ran Playwright code
+\`\`\`js
+await page.waitForURL('**/done');
+\`\`\``);
+
+  expect(await client.callTool({
+    name: 'browser_wait_for_url',
+    arguments: { url: 'done$', regex: true, timeout: 1000 },
+  })).toContainTextContent(`await page.waitForURL(/done$/, { timeout: 1000 });`);
+});
+
+test('browser_wait_for_response', async ({ client, server }) => {
+  server.setContent('/', `<button onclick="setTimeout(() => fetch('/api/users', { method: 'POST' }), 500)">Load</button>`, 'text/html');
+  server.setContent('/api/users', `[]`, 'application/json');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Load', ref: 'e2' },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_wait_for_response',
+    arguments: { url: '**/api/users', status: 200, method: 'post' },
+  });
+  expect(result).toContainTextContent(`Received 200 response for POST ${server.PREFIX}api/users`);
+  expect(result).toContainTextContent(`response.status() === 200 && response.request().method() === 'POST'`);
+
+  // Earlier responses are not returned, unless asked for.
+  expect(await client.callTool({
+    name: 'browser_wait_for_response',
+    arguments: { url: '**/api/users', timeout: 500 },
+  })).toContainTextContent(`Timeout 500ms exceeded`);
+  expect(await client.callTool({
+    name: 'browser_wait_for_response',
+    arguments: { url: '**/api/users', includeReceived: true },
+  })).toContainTextContent(`Received 200 response for POST ${server.PREFIX}api/users`);
+
+  // The click sends the request after a delay, so the response arrives while waiting.
+  await client.callTool({
+    name: 'browser_click',
+    arguments: { element: 'Load', ref: 'e2' },
+  });
+  const next = await client.callTool({
+    name: 'browser_wait_for_response',
+    arguments: { url: '**/api/users' },
+  });
+  expect(next).toContainTextContent(`Received 200 response for POST ${server.PREFIX}api/users`);
+  expect(next).toContainTextContent(`await page.waitForResponse('**/api/users');`);
+
+  const missing = await client.callTool({
+    name: 'browser_wait_for_response',
+    arguments: { url: '**/api/orders', timeout: 500 },
+  });
+  expect(missing.isError).toBe(true);
+});
+
+test('browser_wait_for_network_idle', async ({ client, server }) => {
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.HELLO_WORLD },
+  });
+
+  expect(await client.callTool({
+    name: 'browser_wait_for_network_idle',
+  })).toContainTextContent(`### Result
+Network is idle
+
+### Ran Playwright code
+\`\`\`js
+await page.waitForLoadState('networkidle');
+\`\`\``);
+});
+
+test('browser_wait_for_function', async ({ client, server }) => {
+  server.setContent('/', `<script>setTimeout(() => window.appReady = 'yes', 500)</script>`, 'text/html');
+
+  await client.callTool({
+    name: 'browser_navigate',
+    arguments: { url: server.PREFIX },
+  });
+
+  const result = await client.callTool({
+    name: 'browser_wait_for_function',
+    arguments: { function: '() => window.appReady' },
+  });
+  expect(result).toContainTextContent(`Function returned "yes"`);
+  expect(result).toContainTextContent(`await page.waitForFunction(() => window.appReady);`);
+
+  const timedOut = await client.callTool({
+    name: 'browser_wait_for_function',
+    arguments: { function: '() => window.neverSet', timeout: 500 },
+  });
+  expect(timedOut.isError).toBe(true);
+});
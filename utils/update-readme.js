@@ -32,6 +32,12 @@ const capabilities = {
   'core-install': 'Browser installation',
   'vision': 'Coordinate-based (opt-in via --caps=vision)',
   'pdf': 'PDF generation (opt-in via --caps=pdf)',
+  'network': 'Network mocking and throttling (opt-in via --caps=network)',
+  'storage': 'Cookies and storage (opt-in via --caps=storage)',
+  'testing': 'Assertions (opt-in via --caps=testing)',
+  'performance': 'Performance (opt-in via --caps=performance)',
+  'emulation': 'Emulation (opt-in via --caps=emulation)',
+  'downloads': 'Downloads (opt-in via --caps=downloads)',
 };
 
 // Add our custom tools to allTools before processing